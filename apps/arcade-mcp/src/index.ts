@@ -1,6 +1,20 @@
 import { FastMCP } from "fastmcp";
 import { z } from "zod";
-import { createGmailDraft } from "./gmail-draft.js";
+import {
+    createGmailDraft,
+    deleteGmailDraft,
+    listGmailDrafts,
+    sendGmailDraft,
+    updateGmailDraft,
+} from "@repo/arcade-gmail/gmail-draft";
+import {
+    changeGmailLabels,
+    getGmailThread,
+    replyToGmailEmail,
+    searchGmailThreads,
+} from "@repo/arcade-gmail/gmail-inbox";
+import { checkGmailAuthorization, GmailToolResult } from "@repo/arcade-gmail/gmail-tool";
+import { addPipelineTools } from "./pipeline-tools.js";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -10,31 +24,163 @@ const server = new FastMCP({
     version: "1.0.0",
 });
 
+const userId = z.string().optional().describe("Arcade user ID - if not provided, will use default from environment");
+
+/**
+ * Text returned to the MCP client for a Gmail tool result
+ */
+function formatResult(result: GmailToolResult): string {
+    if (result.authorization) {
+        // Structured, so the client can show the link and check back with the auth ID
+        return JSON.stringify(
+            {
+                status: {
+                    completed: "authorized",
+                    failed: "authorization_failed",
+                    not_started: "authorization_required",
+                    pending: "authorization_required",
+                }[result.authorization.status],
+                auth_id: result.authorization.id,
+                authorization_url: result.authorization.url,
+                message: result.error ? `${result.message}: ${result.error}` : result.message,
+            },
+            null,
+            2,
+        );
+    }
+    if (!result.success) {
+        return `Error: ${result.message}${result.error ? ` - ${result.error}` : ""}`;
+    }
+    return `${result.message}:\n\n${JSON.stringify(result.data?.output?.value, null, 2)}`;
+}
+
+const createDraftParameters = z.object({
+    subject: z.string(),
+    body: z.string(),
+    recipient: z.string(),
+    cc: z.array(z.string()).optional(),
+    bcc: z.array(z.string()).optional(),
+    user_id: userId,
+});
+
 server.addTool({
-    name: "gamil_create_draft",
+    name: "gmail_create_draft",
     description: "Create a draft email in the user's Gmail account",
+    parameters: createDraftParameters,
+    execute: async (args) => formatResult(await createGmailDraft(args)),
+});
+
+// Misspelled name of gmail_create_draft, kept for clients configured with it
+server.addTool({
+    name: "gamil_create_draft",
+    description: "Deprecated, use gmail_create_draft. Create a draft email in the user's Gmail account",
+    parameters: createDraftParameters,
+    execute: async (args) => formatResult(await createGmailDraft(args)),
+});
+
+server.addTool({
+    name: "gmail_list_drafts",
+    description: "List the most recent draft emails in the user's Gmail account",
+    parameters: z.object({
+        limit: z.number().int().min(1).optional().describe("How many drafts to list (default: 5)"),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await listGmailDrafts(args)),
+});
+
+server.addTool({
+    name: "gmail_update_draft",
+    description: "Replace the subject, body and recipients of a draft email",
+    parameters: createDraftParameters.extend({
+        draft_id: z.string(),
+    }),
+    execute: async (args) => formatResult(await updateGmailDraft(args)),
+});
+
+server.addTool({
+    name: "gmail_delete_draft",
+    description: "Delete a draft email",
+    parameters: z.object({
+        draft_id: z.string(),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await deleteGmailDraft(args)),
+});
+
+server.addTool({
+    name: "gmail_send_draft",
+    description: "Send a draft email",
     parameters: z.object({
-        subject: z.string(),
+        draft_id: z.string(),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await sendGmailDraft(args)),
+});
+
+server.addTool({
+    name: "gmail_search_threads",
+    description: "Search the user's Gmail for email threads, e.g. earlier conversations with a contact",
+    parameters: z.object({
+        contact: z.string().optional().describe("Email address the threads were sent by or to"),
+        sender: z.string().optional(),
+        recipient: z.string().optional(),
+        subject: z.string().optional().describe("Words in the subject"),
+        body: z.string().optional().describe("Words in the body"),
+        date_range: z.string().optional().describe("e.g. last_7_days, last_30_days or this_year"),
+        max_results: z.number().int().min(1).optional(),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await searchGmailThreads(args)),
+});
+
+server.addTool({
+    name: "gmail_get_thread",
+    description: "Get the messages of an email thread",
+    parameters: z.object({
+        thread_id: z.string(),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await getGmailThread(args)),
+});
+
+server.addTool({
+    name: "gmail_reply_to_email",
+    description: "Reply to an email in its thread",
+    parameters: z.object({
+        message_id: z.string().describe("ID of the message to reply to"),
         body: z.string(),
-        recipient: z.string(),
-        user_id: z.string().optional().describe("Arcade user ID - if not provided, will use default from environment"),
+        reply_all: z.boolean().optional().describe("Reply to every recipient instead of only the sender"),
+        bcc: z.array(z.string()).optional(),
+        user_id: userId,
     }),
-    execute: async (args) => {
-        const result = await createGmailDraft({
-            subject: args.subject,
-            body: args.body,
-            recipient: args.recipient,
-            user_id: args.user_id,
-        });
+    execute: async (args) => formatResult(await replyToGmailEmail(args)),
+});
 
-        if (!result.success) {
-            return `Error creating Gmail draft: ${result.message}${result.error ? ` - ${result.error}` : ""}`;
-        }
+server.addTool({
+    name: "gmail_change_labels",
+    description: "Add labels to and remove labels from an email, e.g. to mark it as contacted",
+    parameters: z.object({
+        message_id: z.string(),
+        add: z.array(z.string()).optional().describe("Label names to add"),
+        remove: z.array(z.string()).optional().describe("Label names to remove"),
+        user_id: userId,
+    }),
+    execute: async (args) => formatResult(await changeGmailLabels(args)),
+});
 
-        return `Gmail draft created successfully:\n\n${JSON.stringify(result.data?.output?.value, null, 2)}`;
-    },
+server.addTool({
+    name: "check_authorization",
+    description:
+        "Check whether the user has granted the Gmail access a tool asked for with an authorization_required result",
+    parameters: z.object({
+        auth_id: z.string().describe("auth_id of the authorization_required result"),
+        wait: z.number().int().min(0).max(59).optional().describe("Seconds to wait for the user to finish"),
+    }),
+    execute: async (args) => formatResult(await checkGmailAuthorization(args)),
 });
 
+addPipelineTools(server);
+
 server.start({
     transportType: "httpStream",
 });
@@ -0,0 +1,106 @@
+import { FastMCP } from "fastmcp";
+import { z } from "zod";
+import { LeadTools } from "@repo/main/lead-tools";
+
+// Created on first use, so the Gmail tools work without ag.dev being configured
+let leadTools: LeadTools | undefined;
+
+const lead = {
+    company: z.string().describe("Company name"),
+    domain: z.string().optional().describe("Company website domain, e.g. example.com"),
+};
+
+const contact = z.object({
+    name: z.string(),
+    role: z.string().optional(),
+    email: z.string().optional(),
+});
+
+/**
+ * Run a lead tool, turning a failure into an error message for the MCP client
+ */
+async function runLeadTool(run: (tools: LeadTools) => Promise<unknown>): Promise<string> {
+    try {
+        leadTools ??= new LeadTools();
+        return JSON.stringify(await run(leadTools), null, 2);
+    } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : "Unknown error occurred"}`;
+    }
+}
+
+function toLead(args: { company: string; domain?: string }) {
+    return { company: args.company, ...(args.domain ? { domain: args.domain } : {}) };
+}
+
+/**
+ * Register the stages of the lead pipeline in apps/main as tools, for driving the research of one company
+ * interactively. They run against the ag.dev profile in AG_DEV_PROFILE with the result cache.
+ */
+export function addPipelineTools(server: FastMCP): void {
+    server.addTool({
+        name: "research_company",
+        description: "Research a company and return its profile",
+        parameters: z.object(lead),
+        execute: async (args) =>
+            runLeadTool(async (tools) => ({ companyProfile: await tools.researchCompany(toLead(args)) })),
+    });
+
+    server.addTool({
+        name: "find_contacts",
+        description:
+            "Find the people to contact at a company, with verified email addresses and a confidence score each",
+        parameters: z.object(lead),
+        execute: async (args) => runLeadTool((tools) => tools.findContacts(toLead(args))),
+    });
+
+    server.addTool({
+        name: "profile_contact",
+        description: "Research a contact at a company and return their profile",
+        parameters: z.object({ ...lead, contact }),
+        execute: async (args) =>
+            runLeadTool(async (tools) => ({
+                contactProfile: await tools.profileContact(toLead(args), args.contact),
+            })),
+    });
+
+    server.addTool({
+        name: "draft_outreach",
+        description:
+            "Write personalized outreach emails to a contact. Pass the profiles from research_company and " +
+            "profile_contact, otherwise they are researched first.",
+        parameters: z.object({
+            ...lead,
+            contact,
+            company_profile: z.string().optional(),
+            contact_profile: z.string().optional(),
+            variants: z.number().int().min(1).max(5).optional().describe("Email variants to write (default: 1)"),
+        }),
+        execute: async (args) =>
+            runLeadTool(async (tools) => ({
+                emails: await tools.draftOutreach(toLead(args), args.contact, {
+                    companyProfile: args.company_profile,
+                    contactProfile: args.contact_profile,
+                    variants: args.variants,
+                }),
+            })),
+    });
+
+    server.addTool({
+        name: "run_pipeline",
+        description:
+            "Run the whole lead pipeline for a company: research it, find and profile its contacts and write " +
+            "outreach emails. Takes several minutes and reports progress along the way.",
+        parameters: z.object(lead),
+        execute: async (args, { log, reportProgress }) =>
+            runLeadTool(async (tools) => {
+                const result = await tools.runPipeline(toLead(args), {
+                    onProgress: ({ done, total, message }) => {
+                        log.info(message);
+                        // A client that went away misses the progress, the run itself goes on
+                        reportProgress({ progress: done, total }).catch(() => {});
+                    },
+                });
+                return { ...result.outputs, failures: result.failures, stages: result.stages };
+            }),
+    });
+}
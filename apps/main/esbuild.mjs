@@ -1,4 +1,5 @@
 import * as esbuild from "esbuild";
 import { buildConfig } from "@repo/esbuild-config";
 
-await esbuild.build(buildConfig());
+// better-sqlite3 loads a native addon, so it stays a runtime dependency instead of being bundled
+await esbuild.build(buildConfig({ external: ["better-sqlite3"] }));
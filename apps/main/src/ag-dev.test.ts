@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { Server, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import { AgDevApiError, AgDevClient } from "./ag-dev.js";
+
+describe("AgDevClient retries", () => {
+    let server: Server;
+    let baseUrl: string;
+    // Statuses answered to the next requests, 200 once they run out
+    let statuses: number[] = [];
+    let requests = 0;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            requests++;
+            const status = statuses.shift() ?? 200;
+            response.writeHead(status, {
+                "Content-Type": "application/json",
+                ...(status === 429 ? { "Retry-After": "3600" } : {}),
+            });
+            response.end(JSON.stringify(status === 200 ? { items: [], total: 0 } : { error: "RATE_LIMITED" }));
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it("waits at most maxDelay when the server asks for a longer Retry-After", { timeout: 5000 }, async () => {
+        statuses = [429, 429];
+        requests = 0;
+        const client = new AgDevClient("key", baseUrl, { retry: { maxAttempts: 3, baseDelay: 10, maxDelay: 50 } });
+
+        const startedAt = Date.now();
+        const response = await client.listAgents();
+
+        assert.deepEqual(response.items, []);
+        assert.equal(requests, 3);
+        assert.ok(Date.now() - startedAt < 2000, "the hour-long Retry-After was not capped");
+    });
+
+    it("gives up after maxAttempts", async () => {
+        statuses = [503, 503, 503];
+        requests = 0;
+        const client = new AgDevClient("key", baseUrl, { retry: { maxAttempts: 2, baseDelay: 10, maxDelay: 50 } });
+
+        await assert.rejects(
+            client.listAgents(),
+            (error) => error instanceof AgDevApiError && error.statusCode === 503,
+        );
+        assert.equal(requests, 2);
+    });
+});
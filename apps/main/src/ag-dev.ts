@@ -1,3 +1,13 @@
+import {
+    PollingOptions,
+    RunNotifier,
+    RunPoller,
+    WaitForRunOptions,
+    WebhookNotifier,
+    WebhookOptions,
+} from "./run-notifier.js";
+import { RateLimiter, Semaphore, sleep } from "./throttle.js";
+
 // Types for the Agent API
 export type JSONSchema = {
     type: string;
@@ -76,25 +86,210 @@ export type ApiError = {
     statusCode: number;
 };
 
+export type RetryPolicy = {
+    // Maximum number of attempts per request, including the first one
+    maxAttempts?: number;
+    // Delay before the first retry in milliseconds, doubled on every further attempt
+    baseDelay?: number;
+    // Upper bound for a single backoff delay in milliseconds, also for delays asked for by Retry-After
+    maxDelay?: number;
+};
+
+// Options every API method accepts
+export type RequestOptions = {
+    // Aborts the request, including any retry backoff or polling it is waiting on
+    signal?: AbortSignal;
+};
+
+// Paging and filters for listing agent runs
+export type PageOptions = RequestOptions & {
+    // 1-based page number
+    page?: number;
+    pageSize?: number;
+};
+
+export type ListAgentRunsOptions = PageOptions & {
+    status?: AgentRun["status"];
+    // ISO timestamps bounding when the runs were created
+    createdAfter?: string;
+    createdBefore?: string;
+};
+
+export type AgDevClientOptions = {
+    // Maximum number of API requests per second, shared by everything using this client (0 = no limit)
+    requestsPerSecond?: number;
+    // Maximum number of agent runs in flight at once across all agents (0 = no limit)
+    maxInFlightRuns?: number;
+    // Retry failed requests with exponential backoff (no retries when omitted)
+    retry?: RetryPolicy;
+    // How waitForAgentRun learns that runs completed: a shared adaptive poller (the default), or
+    // callbacks from the platform to a local webhook receiver
+    completion?: ({ mode: "poll" } & PollingOptions) | ({ mode: "webhook" } & WebhookOptions);
+};
+
+/**
+ * Error returned by the ag.dev API for a non-2xx response
+ */
+export class AgDevApiError extends Error {
+    readonly statusCode: number;
+    readonly error: string;
+    // Delay requested by the server through the Retry-After header, in milliseconds
+    readonly retryAfter?: number;
+
+    constructor(apiError: ApiError, retryAfter?: number) {
+        super(apiError.message || apiError.error);
+        this.name = "AgDevApiError";
+        this.statusCode = apiError.statusCode;
+        this.error = apiError.error;
+        this.retryAfter = retryAfter;
+    }
+
+    toApiError(): ApiError {
+        return {
+            error: this.error,
+            message: this.message,
+            statusCode: this.statusCode,
+        };
+    }
+}
+
+/**
+ * Error thrown when the ag.dev API could not be reached at all
+ */
+export class AgDevNetworkError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "AgDevNetworkError";
+    }
+}
+
+/**
+ * Error thrown when an agent run did not complete in time. The run itself keeps going on the server.
+ */
+export class AgDevTimeoutError extends Error {
+    readonly runId: string;
+    readonly timeout: number;
+
+    constructor(runId: string, timeout: number) {
+        super(`Agent run ${runId} did not complete within ${timeout}ms`);
+        this.name = "AgDevTimeoutError";
+        this.runId = runId;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Whether a failed request is worth retrying: rate limits, server errors and network failures.
+ * Requests that are not idempotent are only retried when the server rejected them outright (429),
+ * so a run is never created twice.
+ */
+export function isRetryableError(error: unknown, method = "GET"): boolean {
+    const idempotent = method !== "POST";
+
+    if (error instanceof AgDevApiError) {
+        return error.statusCode === 429 || (idempotent && error.statusCode >= 500);
+    }
+    return idempotent && error instanceof AgDevNetworkError;
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * A `?name=value` query of the parameters that are set, empty when none is
+ */
+function queryString(parameters: Record<string, unknown>): string {
+    const query = new URLSearchParams(
+        Object.entries(parameters)
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => [name, String(value)]),
+    ).toString();
+    return query ? `?${query}` : "";
+}
+
 export class AgDevClient {
     private readonly apiKey: string;
     private readonly baseUrl: string;
-
-    constructor(apiKey: string, baseUrl = "https://api.ag.dev") {
+    private readonly rateLimiter: RateLimiter;
+    private readonly runSlots: Semaphore;
+    private readonly retry?: Required<RetryPolicy>;
+    // Learns when the runs waited for complete
+    readonly completions: RunNotifier;
+
+    constructor(apiKey: string, baseUrl = "https://api.ag.dev", options: AgDevClientOptions = {}) {
+        const { requestsPerSecond = 0, maxInFlightRuns = 0, retry, completion } = options;
         this.apiKey = apiKey;
         this.baseUrl = baseUrl.replace(/\/$/, ""); // Remove trailing slash
+        this.rateLimiter = new RateLimiter(requestsPerSecond);
+        this.runSlots = new Semaphore(maxInFlightRuns);
+        this.completions =
+            completion?.mode === "webhook" ? new WebhookNotifier(this, completion) : new RunPoller(this, completion);
+
+        if (retry) {
+            this.retry = {
+                maxAttempts: retry.maxAttempts ?? 5,
+                baseDelay: retry.baseDelay ?? 500,
+                maxDelay: retry.maxDelay ?? 30000,
+            };
+        }
     }
 
     private async request<T>(
         endpoint: string,
         options: {
             method?: string;
-            body?: any;
+            body?: unknown;
             headers?: Record<string, string>;
+            signal?: AbortSignal;
         } = {},
+    ): Promise<T> {
+        const method = options.method ?? "GET";
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.send<T>(endpoint, options);
+            } catch (error) {
+                if (!this.retry || attempt >= this.retry.maxAttempts || !isRetryableError(error, method)) {
+                    throw error;
+                }
+
+                // Exponential backoff with full jitter, unless the server told us how long to wait,
+                // which is capped as well so a server cannot stall the client for hours
+                const backoff = Math.min(this.retry.maxDelay, this.retry.baseDelay * 2 ** (attempt - 1));
+                const retryAfter = error instanceof AgDevApiError ? error.retryAfter : undefined;
+                await sleep(
+                    retryAfter !== undefined ? Math.min(retryAfter, this.retry.maxDelay) : Math.random() * backoff,
+                    options.signal,
+                );
+            }
+        }
+    }
+
+    private async send<T>(
+        endpoint: string,
+        options: {
+            method?: string;
+            body?: unknown;
+            headers?: Record<string, string>;
+            signal?: AbortSignal;
+        },
     ): Promise<T> {
         const url = `${this.baseUrl}${endpoint}`;
-        const { method = "GET", body, headers = {} } = options;
+        const { method = "GET", body, headers = {}, signal } = options;
 
         const requestHeaders: Record<string, string> = {
             "X-Api-Key": this.apiKey,
@@ -105,86 +300,126 @@ export class AgDevClient {
         const requestInit: RequestInit = {
             method,
             headers: requestHeaders,
+            signal,
         };
 
         if (body && (method === "POST" || method === "PATCH" || method === "PUT")) {
             requestInit.body = JSON.stringify(body);
         }
 
+        await this.rateLimiter.acquire(signal);
+
+        let response: Response;
         try {
-            const response = await fetch(url, requestInit);
-
-            if (!response.ok) {
-                let errorData: ApiError;
-                try {
-                    errorData = await response.json();
-                } catch {
-                    errorData = {
-                        error: "HTTP_ERROR",
-                        message: `HTTP ${response.status}: ${response.statusText}`,
-                        statusCode: response.status,
-                    };
-                }
-                throw new Error(`API Error: ${errorData.message || errorData.error}`);
+            response = await fetch(url, requestInit);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw signal.reason;
             }
+            throw new AgDevNetworkError(`Network error: ${error instanceof Error ? error.message : String(error)}`, {
+                cause: error,
+            });
+        }
 
-            // Handle empty responses
-            const contentType = response.headers.get("content-type");
-            if (contentType && contentType.includes("application/json")) {
-                return await response.json();
-            } else {
-                return {} as T;
-            }
-        } catch (error) {
-            if (error instanceof Error) {
-                throw error;
+        if (!response.ok) {
+            let errorData: Partial<ApiError>;
+            try {
+                errorData = await response.json();
+            } catch {
+                errorData = {
+                    error: "HTTP_ERROR",
+                    message: `HTTP ${response.status}: ${response.statusText}`,
+                };
             }
-            throw new Error(`Network error: ${String(error)}`);
+            throw new AgDevApiError(
+                {
+                    error: errorData.error ?? "HTTP_ERROR",
+                    message: errorData.message ?? `HTTP ${response.status}: ${response.statusText}`,
+                    statusCode: response.status,
+                },
+                parseRetryAfter(response.headers.get("retry-after")),
+            );
+        }
+
+        // Handle empty responses
+        const contentType = response.headers.get("content-type");
+        if (contentType && contentType.includes("application/json")) {
+            return await response.json();
+        } else {
+            return {} as T;
         }
     }
 
+    /**
+     * Run a task while holding one of the client's in-flight run slots
+     */
+    async withRunSlot<T>(task: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+        return this.runSlots.use(task, options.signal);
+    }
+
     // Agent management methods
 
     /**
-     * List all agents
+     * List one page of agents
      */
-    async listAgents(): Promise<ListResponse<Agent>> {
-        return this.request<ListResponse<Agent>>("/v0.1/agents/");
+    async listAgents(options: PageOptions = {}): Promise<ListResponse<Agent>> {
+        const { signal, page, pageSize } = options;
+        return this.request<ListResponse<Agent>>(`/v0.1/agents/${queryString({ page, pageSize })}`, { signal });
+    }
+
+    /**
+     * Iterate over the agents across all pages, starting at `page`
+     */
+    async *iterateAgents(options: PageOptions = {}): AsyncGenerator<Agent> {
+        const { pageSize = 100 } = options;
+        let seen = 0;
+        for (let page = options.page ?? 1; ; page++) {
+            const response = await this.listAgents({ ...options, page, pageSize });
+            yield* response.items;
+
+            seen += response.items.length;
+            if (response.items.length < (response.pageSize ?? pageSize) || seen >= response.total) {
+                return;
+            }
+        }
     }
 
     /**
      * Get a specific agent by ID
      */
-    async getAgent(agentId: string): Promise<Agent> {
-        return this.request<Agent>(`/v0.1/agents/${agentId}`);
+    async getAgent(agentId: string, options: RequestOptions = {}): Promise<Agent> {
+        return this.request<Agent>(`/v0.1/agents/${agentId}`, options);
     }
 
     /**
      * Create a new agent
      */
-    async createAgent(agentData: CreateAgentRequest): Promise<Agent> {
+    async createAgent(agentData: CreateAgentRequest, options: RequestOptions = {}): Promise<Agent> {
         return this.request<Agent>("/v0.1/agents", {
             method: "POST",
             body: agentData,
+            signal: options.signal,
         });
     }
 
     /**
      * Update an existing agent
      */
-    async updateAgent(agentId: string, updates: UpdateAgentRequest): Promise<Agent> {
+    async updateAgent(agentId: string, updates: UpdateAgentRequest, options: RequestOptions = {}): Promise<Agent> {
         return this.request<Agent>(`/v0.1/agents/${agentId}`, {
             method: "PATCH",
             body: updates,
+            signal: options.signal,
         });
     }
 
     /**
      * Delete an agent
      */
-    async deleteAgent(agentId: string): Promise<void> {
+    async deleteAgent(agentId: string, options: RequestOptions = {}): Promise<void> {
         return this.request<void>(`/v0.1/agents/${agentId}`, {
             method: "DELETE",
+            signal: options.signal,
         });
     }
 
@@ -193,58 +428,105 @@ export class AgDevClient {
     /**
      * Create a new agent run
      */
-    async createAgentRun(agentId: string, input: CreateAgentRunRequest): Promise<AgentRun> {
+    async createAgentRun(
+        agentId: string,
+        input: CreateAgentRunRequest,
+        options: RequestOptions = {},
+    ): Promise<AgentRun> {
         return this.request<AgentRun>(`/v0.1/agents/${agentId}/runs`, {
             method: "POST",
             body: input,
+            signal: options.signal,
         });
     }
 
     /**
-     * List all runs for a specific agent
+     * List one page of runs for a specific agent
      */
-    async listAgentRuns(agentId: string): Promise<ListResponse<AgentRun>> {
-        return this.request<ListResponse<AgentRun>>(`/v0.1/agents/${agentId}/runs/`);
+    async listAgentRuns(agentId: string, options: ListAgentRunsOptions = {}): Promise<ListResponse<AgentRun>> {
+        const { signal, ...filters } = options;
+        return this.request<ListResponse<AgentRun>>(`/v0.1/agents/${agentId}/runs/${queryString(filters)}`, {
+            signal,
+        });
     }
 
     /**
-     * Get a specific agent run
+     * Iterate over the runs of an agent across all pages, starting at `page`.
+     * Filters are also applied to every page locally, in case the API ignores them.
      */
-    async getAgentRun(agentId: string, runId: string): Promise<AgentRun> {
-        return this.request<AgentRun>(`/v0.1/agents/${agentId}/runs/${runId}`);
+    async *iterateAgentRuns(agentId: string, options: ListAgentRunsOptions = {}): AsyncGenerator<AgentRun> {
+        const { pageSize = 100, status, createdAfter, createdBefore } = options;
+        const matches = (run: AgentRun) =>
+            (!status || run.status === status) &&
+            (!createdAfter || Date.parse(run.createdAt) >= Date.parse(createdAfter)) &&
+            (!createdBefore || Date.parse(run.createdAt) < Date.parse(createdBefore));
+
+        let seen = 0;
+        for (let page = options.page ?? 1; ; page++) {
+            const response = await this.listAgentRuns(agentId, { ...options, page, pageSize });
+            for (const run of response.items) {
+                if (matches(run)) {
+                    yield run;
+                }
+            }
+
+            seen += response.items.length;
+            if (response.items.length < (response.pageSize ?? pageSize) || seen >= response.total) {
+                return;
+            }
+        }
     }
 
     /**
-     * Get events for a specific agent run
+     * Get a specific agent run
      */
-    async getAgentRunEvents(agentId: string, runId: string): Promise<ListResponse<AgentRunEvent>> {
-        return this.request<ListResponse<AgentRunEvent>>(`/v0.1/agents/${agentId}/runs/${runId}/events`);
+    async getAgentRun(agentId: string, runId: string, options: RequestOptions = {}): Promise<AgentRun> {
+        return this.request<AgentRun>(`/v0.1/agents/${agentId}/runs/${runId}`, options);
     }
 
     /**
-     * Wait for an agent run to complete
+     * Get one page of events for a specific agent run
      */
-    async waitForAgentRun(
+    async getAgentRunEvents(
         agentId: string,
         runId: string,
-        options: {
-            pollInterval?: number;
-            timeout?: number;
-        } = {},
-    ): Promise<AgentRun> {
-        const { pollInterval = 1000, timeout = 0 } = options;
-        const startTime = Date.now();
-
-        while (timeout === 0 || Date.now() - startTime < timeout) {
-            const run = await this.getAgentRun(agentId, runId);
+        options: PageOptions = {},
+    ): Promise<ListResponse<AgentRunEvent>> {
+        const { signal, page, pageSize } = options;
+        return this.request<ListResponse<AgentRunEvent>>(
+            `/v0.1/agents/${agentId}/runs/${runId}/events${queryString({ page, pageSize })}`,
+            { signal },
+        );
+    }
 
-            if (run.status === "done" || run.status === "error") {
-                return run;
+    /**
+     * Iterate over the events of an agent run across all pages, starting at `page`
+     */
+    async *iterateAgentRunEvents(
+        agentId: string,
+        runId: string,
+        options: PageOptions = {},
+    ): AsyncGenerator<AgentRunEvent> {
+        const { pageSize = 100 } = options;
+        let seen = 0;
+        for (let page = options.page ?? 1; ; page++) {
+            const response = await this.getAgentRunEvents(agentId, runId, { ...options, page, pageSize });
+            yield* response.items;
+
+            seen += response.items.length;
+            if (response.items.length < (response.pageSize ?? pageSize) || seen >= response.total) {
+                return;
             }
-
-            await new Promise((resolve) => setTimeout(resolve, pollInterval));
         }
+    }
 
-        throw new Error(`Agent run ${runId} did not complete within ${timeout}ms`);
+    /**
+     * Wait for an agent run to complete, through the client's completion notifier. Throws an
+     * AgDevTimeoutError after `timeout` milliseconds (0 = wait forever) and the abort reason when
+     * the signal is aborted; the run itself is left running on the server in both cases, so it can
+     * be awaited again later.
+     */
+    async waitForAgentRun(agentId: string, runId: string, options: WaitForRunOptions = {}): Promise<AgentRun> {
+        return this.completions.wait(agentId, runId, options);
     }
 }
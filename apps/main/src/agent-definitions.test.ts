@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { AgDevClient, Agent, CreateAgentRequest, PageOptions } from "./ag-dev.js";
+import { AgentDefinition, planAgentSync } from "./agent-definitions.js";
+
+function request(goalPrompt: string): CreateAgentRequest {
+    return { modelStackId: "model", goalPrompt, inputSchema: { type: "object" }, tools: [], resultType: "text" };
+}
+
+function definition(name: string, goalPrompt = `Research ${name}`): AgentDefinition {
+    return { name, request: request(goalPrompt), hash: name };
+}
+
+function agent(id: string, goalPrompt: string): Agent {
+    return { id, ...request(goalPrompt), createdAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z" };
+}
+
+/**
+ * A client whose API lists `agents` two per page, whatever page size is asked for
+ */
+function pagedClient(agents: Agent[]): AgDevClient {
+    const client = new AgDevClient("key", "http://127.0.0.1:9");
+    client.listAgents = async ({ page = 1 }: PageOptions = {}) => ({
+        items: agents.slice((page - 1) * 2, page * 2),
+        total: agents.length,
+        page,
+        pageSize: 2,
+    });
+    return client;
+}
+
+describe("planAgentSync", () => {
+    it("finds locked agents on every page of the agent list", async () => {
+        const client = pagedClient([
+            agent("other-1", "Not ours"),
+            agent("other-2", "Not ours"),
+            agent("a-1", "Research alpha"),
+            agent("b-1", "Old prompt"),
+            agent("gone-1", "Research gone"),
+        ]);
+
+        const actions = await planAgentSync(client, [definition("alpha"), definition("beta"), definition("new")], {
+            alpha: { id: "a-1" },
+            beta: { id: "b-1" },
+            gone: { id: "gone-1" },
+        });
+
+        assert.deepEqual(actions, [
+            { name: "alpha", action: "unchanged", agentId: "a-1" },
+            { name: "beta", action: "update", agentId: "b-1", changes: ["goalPrompt"] },
+            { name: "new", action: "create" },
+            { name: "gone", action: "prune", agentId: "gone-1" },
+        ]);
+    });
+
+    it("creates agents whose locked ID no longer exists", async () => {
+        const actions = await planAgentSync(pagedClient([]), [definition("alpha")], { alpha: { id: "a-1" } });
+
+        assert.deepEqual(actions, [{ name: "alpha", action: "create" }]);
+    });
+});
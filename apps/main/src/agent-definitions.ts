@@ -0,0 +1,201 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import { basename, extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { AgDevClient, Agent, CreateAgentRequest, RequestOptions, UpdateAgentRequest } from "./ag-dev.js";
+import { AgentLock, LockedAgent, interpolateEnv } from "./config.js";
+import { hashJson, stableStringify } from "./stable-json.js";
+
+const agentDefinitionSchema = z.object({
+    modelStackId: z.string(),
+    goalPrompt: z.string(),
+    inputSchema: z
+        .object({
+            type: z.string(),
+            properties: z.record(z.string(), z.any()).optional(),
+            required: z.array(z.string()).optional(),
+        })
+        .catchall(z.any()),
+    tools: z
+        .array(
+            z.object({
+                source: z.string(),
+                serverId: z.string(),
+                enabledTools: z.array(z.string()),
+            }),
+        )
+        .default([]),
+    resultType: z.string(),
+    customPlanningInstructions: z.string().optional(),
+});
+
+export type AgentDefinition = {
+    // Name pipeline stages refer to the agent by, taken from the file name
+    name: string;
+    request: CreateAgentRequest;
+    // Hash of the request, recorded in the lock file
+    hash: string;
+};
+
+export type AgentSyncAction = {
+    name: string;
+    action: "create" | "update" | "unchanged" | "prune";
+    agentId?: string;
+    // Fields that differ from the remote agent, for updates
+    changes?: (keyof CreateAgentRequest)[];
+};
+
+const DEFINITION_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+const REQUEST_FIELDS: (keyof CreateAgentRequest)[] = [
+    "modelStackId",
+    "goalPrompt",
+    "inputSchema",
+    "tools",
+    "resultType",
+    "customPlanningInstructions",
+];
+
+/**
+ * Load every agent definition (one YAML or JSON file per agent) from a directory.
+ * `${VAR}` references in modelStackId and tool server IDs are read from the environment.
+ */
+export function loadAgentDefinitions(dir: string): AgentDefinition[] {
+    if (!existsSync(dir)) {
+        throw new Error(`Agent definitions directory not found: ${dir}`);
+    }
+
+    return readdirSync(dir)
+        .filter((file) => DEFINITION_EXTENSIONS.includes(extname(file).toLowerCase()))
+        .sort()
+        .map((file) => {
+            const filePath = join(dir, file);
+            const name = basename(file, extname(file));
+            const content = readFileSync(filePath, "utf-8");
+            const raw = extname(file).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+
+            const result = agentDefinitionSchema.safeParse(raw);
+            if (!result.success) {
+                const issues = result.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`);
+                throw new Error(`Invalid agent definition ${filePath}:\n${issues.join("\n")}`);
+            }
+
+            const source = `Agent definition "${name}"`;
+            const request: CreateAgentRequest = {
+                ...result.data,
+                modelStackId: interpolateEnv(result.data.modelStackId, source),
+                tools: result.data.tools.map((tool) => ({ ...tool, serverId: interpolateEnv(tool.serverId, source) })),
+            };
+
+            return {
+                name,
+                request,
+                hash: hashJson(request),
+            };
+        });
+}
+
+/**
+ * Read the lock file, or an empty lock if there is none yet
+ */
+export function readAgentLock(filePath: string): AgentLock {
+    if (!existsSync(filePath)) {
+        return { profiles: {} };
+    }
+    return JSON.parse(readFileSync(filePath, "utf-8")) as AgentLock;
+}
+
+export function writeAgentLock(filePath: string, lock: AgentLock): void {
+    writeFileSync(filePath, `${JSON.stringify(lock, null, 2)}\n`, "utf-8");
+}
+
+/**
+ * Request fields whose local definition differs from the remote agent
+ */
+function changedFields(request: CreateAgentRequest, agent: Agent): (keyof CreateAgentRequest)[] {
+    return REQUEST_FIELDS.filter((field) => stableStringify(request[field]) !== stableStringify(agent[field]));
+}
+
+/**
+ * Work out what has to change remotely for the agents to match their definitions.
+ * Agents are matched through the IDs recorded in the lock, so agents created by hand
+ * are never touched.
+ */
+export async function planAgentSync(
+    client: AgDevClient,
+    definitions: AgentDefinition[],
+    locked: Record<string, { id: string }>,
+    options: RequestOptions = {},
+): Promise<AgentSyncAction[]> {
+    // Every page, an agent missing from the map would be created a second time
+    const remote = new Map<string, Agent>();
+    for await (const agent of client.iterateAgents(options)) {
+        remote.set(agent.id, agent);
+    }
+    const names = new Set(definitions.map((definition) => definition.name));
+
+    const actions: AgentSyncAction[] = definitions.map((definition) => {
+        const agentId = locked[definition.name]?.id;
+        const agent = agentId ? remote.get(agentId) : undefined;
+        if (!agent) {
+            return { name: definition.name, action: "create" };
+        }
+
+        const changes = changedFields(definition.request, agent);
+        return changes.length > 0
+            ? { name: definition.name, action: "update", agentId: agent.id, changes }
+            : { name: definition.name, action: "unchanged", agentId: agent.id };
+    });
+
+    // Agents synced earlier whose definition has been removed since
+    Object.entries(locked)
+        .filter(([name, { id }]) => !names.has(name) && remote.has(id))
+        .forEach(([name, { id }]) => actions.push({ name, action: "prune", agentId: id }));
+
+    return actions;
+}
+
+/**
+ * Apply a sync plan, updating the lock entries in `agents` after every action so a
+ * failure part-way still records what was synced. Agents whose definition was removed
+ * are only deleted with `prune`, otherwise they are kept in the lock.
+ */
+export async function applyAgentSync(
+    client: AgDevClient,
+    definitions: AgentDefinition[],
+    actions: AgentSyncAction[],
+    agents: Record<string, LockedAgent>,
+    options: RequestOptions & { prune?: boolean; onAction?: (action: AgentSyncAction) => void } = {},
+): Promise<void> {
+    const { signal } = options;
+    const byName = new Map(definitions.map((definition) => [definition.name, definition]));
+
+    for (const action of actions) {
+        signal?.throwIfAborted();
+        const definition = byName.get(action.name);
+        const syncedAt = new Date().toISOString();
+
+        if (action.action === "prune") {
+            if (!options.prune) {
+                continue;
+            }
+            await client.deleteAgent(action.agentId!, { signal });
+            delete agents[action.name];
+        } else if (action.action === "create") {
+            const agent = await client.createAgent(definition!.request, { signal });
+            action.agentId = agent.id;
+            agents[action.name] = { id: agent.id, hash: definition!.hash, syncedAt };
+        } else {
+            if (action.action === "update") {
+                const updates: UpdateAgentRequest = Object.fromEntries(
+                    (action.changes ?? []).map((field) => [field, definition!.request[field]]),
+                );
+                await client.updateAgent(action.agentId!, updates, { signal });
+            }
+            agents[action.name] = { id: action.agentId!, hash: definition!.hash, syncedAt };
+        }
+
+        options.onAction?.(action);
+    }
+}
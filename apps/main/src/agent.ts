@@ -1,11 +1,20 @@
+import { z } from "zod";
+
 import {
     AgDevClient,
     CreateAgentRequest,
     UpdateAgentRequest,
     Agent as AgentData,
     AgentRun,
+    AgDevTimeoutError,
     CreateAgentRunRequest,
+    ListAgentRunsOptions,
+    RequestOptions,
 } from "./ag-dev.js";
+import { formatIssues, jsonSchemaToZod } from "./json-schema.js";
+import { ResultCache, agentVersion } from "./result-cache.js";
+import { hashJson } from "./stable-json.js";
+import { mapWithConcurrency } from "./throttle.js";
 
 export type AgentRunResult<TInput = Record<string, unknown>, TOutput = Record<string, unknown>> = {
     id: string;
@@ -15,17 +24,122 @@ export type AgentRunResult<TInput = Record<string, unknown>, TOutput = Record<st
     createdAt: string;
     updatedAt: string;
     completedAt?: string;
+    // Why the run failed, set whenever status is "error"
+    error?: string;
+    errorKind?: FailureKind;
+    // Whether the result was answered from the result cache instead of a new run
+    cached?: boolean;
+    // Whether the result is that of an earlier run with the same input found on the server
+    reused?: boolean;
+};
+
+// "run" when the run itself failed or could not be started, "timeout" when it did not complete
+// in time, otherwise the schema that was violated
+export type FailureKind = "run" | "timeout" | "invalid-input" | "invalid-output";
+
+export type RunWaitOptions = RequestOptions & {
+    pollInterval?: number;
+    // Milliseconds to wait for a run to complete, 0 = no limit
+    timeout?: number;
+    // Called with the run after every status request while waiting
+    onPoll?: (run: AgentRun) => void;
+};
+
+// Runtime checks for the input sent to and the result data returned by an agent
+export type AgentSchemas<TInput, TOutput> = {
+    input?: z.ZodType<TInput>;
+    output?: z.ZodType<TOutput>;
 };
 
 export type AgentConfig = CreateAgentRequest;
 
+export class SchemaValidationError extends Error {
+    readonly kind: Exclude<FailureKind, "run">;
+
+    constructor(kind: Exclude<FailureKind, "run">, error: z.ZodError) {
+        super(
+            kind === "invalid-input"
+                ? `Input does not match the input schema: ${formatIssues(error)}`
+                : `Result does not match the output schema: ${formatIssues(error)}`,
+        );
+        this.name = "SchemaValidationError";
+        this.kind = kind;
+    }
+}
+
+/**
+ * Convert an API run into a typed run result
+ */
+function toRunResult<TInput, TOutput>(run: AgentRun): AgentRunResult<TInput, TOutput> {
+    const result: AgentRunResult<TInput, TOutput> = {
+        id: run.id,
+        status: run.status,
+        input: run.input as TInput,
+        resultData: run.resultData as TOutput,
+        createdAt: run.createdAt,
+        updatedAt: run.updatedAt,
+        completedAt: run.completedAt,
+    };
+
+    if (run.status === "error") {
+        const reason = run.resultData?.error ?? run.resultData?.message;
+        result.error = typeof reason === "string" ? reason : `Agent run ${run.id} finished with status "error"`;
+        result.errorKind = "run";
+    }
+
+    return result;
+}
+
+/**
+ * Build the result for an input no run was started for
+ */
+function toPendingRunResult<TInput, TOutput>(input: TInput): AgentRunResult<TInput, TOutput> {
+    const now = new Date().toISOString();
+    return { id: "", status: "pending", input, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Build the result for a run that could not be started or awaited
+ */
+function toFailedRunResult<TInput, TOutput>(
+    input: TInput,
+    runId: string | undefined,
+    error: unknown,
+): AgentRunResult<TInput, TOutput> {
+    const now = new Date().toISOString();
+    return {
+        id: runId ?? "",
+        status: "error",
+        input,
+        createdAt: now,
+        updatedAt: now,
+        error: error instanceof Error ? error.message : String(error),
+        errorKind:
+            error instanceof SchemaValidationError
+                ? error.kind
+                : error instanceof AgDevTimeoutError
+                  ? "timeout"
+                  : "run",
+    };
+}
+
 export class Agent<TInput = Record<string, unknown>, TOutput = Record<string, unknown>> {
     private client: AgDevClient;
     private agentId: string;
+    private schemas: AgentSchemas<TInput, TOutput>;
+    private cache?: ResultCache;
+    private refreshCache = false;
+    // Version of the agent results are cached under, fetched once
+    private version?: Promise<string | undefined>;
+    // How old a run on the server may be to be reused, undefined when runs are not reused
+    private reuseMaxAge?: number;
+    // Input hash -> most recent successful run, listed once
+    private reusableRuns?: Promise<Map<string, AgentRun>>;
 
-    constructor(client: AgDevClient, agentId: string) {
+    constructor(client: AgDevClient, agentId: string, schemas: AgentSchemas<TInput, TOutput> = {}) {
         this.client = client;
         this.agentId = agentId;
+        this.schemas = schemas;
     }
 
     /**
@@ -34,9 +148,11 @@ export class Agent<TInput = Record<string, unknown>, TOutput = Record<string, un
     static async create<TInput = Record<string, unknown>, TOutput = Record<string, unknown>>(
         client: AgDevClient,
         config: AgentConfig,
+        schemas: AgentSchemas<TInput, TOutput> = {},
+        options: RequestOptions = {},
     ): Promise<Agent<TInput, TOutput>> {
-        const agentData = await client.createAgent(config);
-        return new Agent<TInput, TOutput>(client, agentData.id);
+        const agentData = await client.createAgent(config, options);
+        return new Agent<TInput, TOutput>(client, agentData.id, schemas);
     }
 
     /**
@@ -45,8 +161,31 @@ export class Agent<TInput = Record<string, unknown>, TOutput = Record<string, un
     static async load<TInput = Record<string, unknown>, TOutput = Record<string, unknown>>(
         client: AgDevClient,
         agentId: string,
+        schemas: AgentSchemas<TInput, TOutput> = {},
+    ): Promise<Agent<TInput, TOutput>> {
+        return new Agent<TInput, TOutput>(client, agentId, schemas);
+    }
+
+    /**
+     * Load an existing agent by ID and, unless an input schema is given, check inputs
+     * against the inputSchema the agent was configured with
+     */
+    static async loadWithAgentSchema<TInput = Record<string, unknown>, TOutput = Record<string, unknown>>(
+        client: AgDevClient,
+        agentId: string,
+        schemas: AgentSchemas<TInput, TOutput> = {},
+        options: RequestOptions = {},
     ): Promise<Agent<TInput, TOutput>> {
-        return new Agent<TInput, TOutput>(client, agentId);
+        if (schemas.input) {
+            return new Agent<TInput, TOutput>(client, agentId, schemas);
+        }
+        const agentData = await client.getAgent(agentId, options);
+        const agent = new Agent<TInput, TOutput>(client, agentId, {
+            ...schemas,
+            input: jsonSchemaToZod(agentData.inputSchema) as z.ZodType<TInput>,
+        });
+        agent.version = Promise.resolve(agentVersion(agentData));
+        return agent;
     }
 
     /**
@@ -59,137 +198,369 @@ export class Agent<TInput = Record<string, unknown>, TOutput = Record<string, un
     /**
      * Get the agent data (fetched fresh each time)
      */
-    async getData(): Promise<AgentData> {
-        return await this.client.getAgent(this.agentId);
+    async getData(options: RequestOptions = {}): Promise<AgentData> {
+        return await this.client.getAgent(this.agentId, options);
+    }
+
+    /**
+     * Answer runs with the results of earlier runs of the same agent version for the same input.
+     * With `refresh`, runs are never answered from the cache but their results are still cached.
+     */
+    useCache(cache: ResultCache, options: { refresh?: boolean } = {}): this {
+        this.cache = cache;
+        this.refreshCache = options.refresh ?? false;
+        return this;
+    }
+
+    /**
+     * Answer runs with the result of the most recent successful run on the server with an identical
+     * input, if it was created within `maxAge` milliseconds (0 = any age)
+     */
+    reuseRemoteRuns(options: { maxAge: number }): this {
+        this.reuseMaxAge = options.maxAge;
+        return this;
     }
 
     /**
      * Update the agent configuration
      */
-    async update(updates: UpdateAgentRequest): Promise<void> {
-        await this.client.updateAgent(this.agentId, updates);
+    async update(updates: UpdateAgentRequest, options: RequestOptions = {}): Promise<void> {
+        await this.client.updateAgent(this.agentId, updates, options);
     }
 
     /**
      * Delete the agent
      */
-    async delete(): Promise<void> {
-        await this.client.deleteAgent(this.agentId);
+    async delete(options: RequestOptions = {}): Promise<void> {
+        await this.client.deleteAgent(this.agentId, options);
     }
 
     /**
-     * Run the agent with given input and wait for completion
+     * Check an input against the input schema before any run is paid for
      */
-    async run(
-        input: TInput,
-        options?: {
-            pollInterval?: number;
-            timeout?: number;
-        },
-    ): Promise<AgentRunResult<TInput, TOutput>> {
-        // Create the run
-        const run = await this.client.createAgentRun(this.agentId, input as CreateAgentRunRequest);
+    private validateInput(input: TInput): TInput {
+        if (!this.schemas.input) {
+            return input;
+        }
+        const parsed = this.schemas.input.safeParse(input);
+        if (!parsed.success) {
+            throw new SchemaValidationError("invalid-input", parsed.error);
+        }
+        return parsed.data;
+    }
 
-        // Wait for completion
-        const completedRun = await this.client.waitForAgentRun(this.agentId, run.id, options);
+    /**
+     * Convert a run into a result, failing completed runs whose result data does not match the output schema
+     */
+    private toValidatedResult(run: AgentRun): AgentRunResult<TInput, TOutput> {
+        const result = toRunResult<TInput, TOutput>(run);
+        if (result.status !== "done" || !this.schemas.output) {
+            return result;
+        }
 
+        const parsed = this.schemas.output.safeParse(result.resultData);
+        if (parsed.success) {
+            return { ...result, resultData: parsed.data };
+        }
+        // The invalid result data is kept for inspection
         return {
-            id: completedRun.id,
-            status: completedRun.status,
-            input: completedRun.input as TInput,
-            resultData: completedRun.resultData as TOutput,
-            createdAt: completedRun.createdAt,
-            updatedAt: completedRun.updatedAt,
-            completedAt: completedRun.completedAt,
+            ...result,
+            status: "error",
+            error: new SchemaValidationError("invalid-output", parsed.error).message,
+            errorKind: "invalid-output",
         };
     }
 
+    /**
+     * The version results are cached under, undefined when the agent could not be loaded
+     */
+    private cacheVersion(signal?: AbortSignal): Promise<string | undefined> {
+        this.version ??= this.getData({ signal }).then(
+            (agentData) => agentVersion(agentData),
+            () => {
+                // Try again next time, the run is not cached meanwhile
+                this.version = undefined;
+                return undefined;
+            },
+        );
+        return this.version;
+    }
+
+    /**
+     * Look up a cached result for an input, results that no longer match the output schema are ignored
+     */
+    private async fromCache(input: TInput, signal?: AbortSignal): Promise<AgentRunResult<TInput, TOutput> | undefined> {
+        if (!this.cache || this.refreshCache) {
+            return undefined;
+        }
+        const version = await this.cacheVersion(signal);
+        const entry = version && this.cache.get(this.agentId, version, input as Record<string, unknown>);
+        if (!entry) {
+            return undefined;
+        }
+
+        const result = this.toValidatedResult({
+            id: entry.runId,
+            agentId: this.agentId,
+            status: "done",
+            input: entry.input,
+            resultData: entry.resultData,
+            createdAt: entry.cachedAt,
+            updatedAt: entry.cachedAt,
+            completedAt: entry.cachedAt,
+        });
+        return result.status === "done" ? { ...result, input, cached: true } : undefined;
+    }
+
+    /**
+     * Cache the result of a successful run
+     */
+    private async toCache(input: TInput, result: AgentRunResult<TInput, TOutput>, signal?: AbortSignal): Promise<void> {
+        if (!this.cache || result.status !== "done" || result.cached) {
+            return;
+        }
+        const version = await this.cacheVersion(signal);
+        if (version) {
+            this.cache.set({
+                agentId: this.agentId,
+                agentVersion: version,
+                input: input as Record<string, unknown>,
+                resultData: result.resultData as Record<string, unknown> | undefined,
+                runId: result.id,
+            });
+        }
+    }
+
+    /**
+     * List the successful runs that may be reused, keyed on their input
+     */
+    private listReusableRuns(signal?: AbortSignal): Promise<Map<string, AgentRun>> {
+        this.reusableRuns ??= (async () => {
+            const reusable = new Map<string, AgentRun>();
+            const createdAfter = this.reuseMaxAge ? new Date(Date.now() - this.reuseMaxAge).toISOString() : undefined;
+            try {
+                for await (const run of this.client.iterateAgentRuns(this.agentId, {
+                    status: "done",
+                    createdAfter,
+                    signal,
+                })) {
+                    const key = hashJson(run.input);
+                    const previous = reusable.get(key);
+                    if (!previous || Date.parse(run.createdAt) > Date.parse(previous.createdAt)) {
+                        reusable.set(key, run);
+                    }
+                }
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw error;
+                }
+                // Reusing runs only saves money, the runs listed so far are reused and the rest run anew
+            }
+            return reusable;
+        })();
+        return this.reusableRuns;
+    }
+
+    /**
+     * Look up an earlier run on the server with the same input, runs whose result no longer
+     * matches the output schema are ignored
+     */
+    private async fromRemoteRuns(
+        input: TInput,
+        signal?: AbortSignal,
+    ): Promise<AgentRunResult<TInput, TOutput> | undefined> {
+        if (this.reuseMaxAge === undefined) {
+            return undefined;
+        }
+        const run = (await this.listReusableRuns(signal)).get(hashJson(input));
+        if (!run) {
+            return undefined;
+        }
+        const result = this.toValidatedResult(run);
+        return result.status === "done" ? { ...result, input, reused: true } : undefined;
+    }
+
+    /**
+     * Answer an input from the result cache or an earlier run on the server, whichever has it first
+     */
+    private async findEarlierResult(
+        input: TInput,
+        signal?: AbortSignal,
+    ): Promise<AgentRunResult<TInput, TOutput> | undefined> {
+        const cached = await this.fromCache(input, signal);
+        if (cached) {
+            return cached;
+        }
+        const reused = await this.fromRemoteRuns(input, signal);
+        if (reused) {
+            await this.toCache(input, reused, signal);
+        }
+        return reused;
+    }
+
+    /**
+     * Run the agent with given input and wait for completion
+     */
+    async run(input: TInput, options: RunWaitOptions = {}): Promise<AgentRunResult<TInput, TOutput>> {
+        const validInput = this.validateInput(input);
+        const earlier = await this.findEarlierResult(input, options.signal);
+        if (earlier) {
+            return earlier;
+        }
+
+        const completedRun = await this.client.withRunSlot(async () => {
+            // Create the run
+            const run = await this.client.createAgentRun(this.agentId, validInput as CreateAgentRunRequest, options);
+
+            // Wait for completion
+            return await this.client.waitForAgentRun(this.agentId, run.id, options);
+        }, options);
+
+        const result = this.toValidatedResult(completedRun);
+        await this.toCache(input, result, options.signal);
+        return result;
+    }
+
     /**
      * Start a run without waiting for completion
      */
-    async startRun(input: TInput): Promise<string> {
-        const run = await this.client.createAgentRun(this.agentId, input as CreateAgentRunRequest);
+    async startRun(input: TInput, options: RequestOptions = {}): Promise<string> {
+        const run = await this.client.createAgentRun(
+            this.agentId,
+            this.validateInput(input) as CreateAgentRunRequest,
+            options,
+        );
         return run.id;
     }
 
     /**
      * Get the result of a specific run
      */
-    async getRunResult(runId: string): Promise<AgentRunResult<TInput, TOutput>> {
-        const run = await this.client.getAgentRun(this.agentId, runId);
-        return {
-            id: run.id,
-            status: run.status,
-            input: run.input as TInput,
-            resultData: run.resultData as TOutput,
-            createdAt: run.createdAt,
-            updatedAt: run.updatedAt,
-            completedAt: run.completedAt,
-        };
+    async getRunResult(runId: string, options: RequestOptions = {}): Promise<AgentRunResult<TInput, TOutput>> {
+        const run = await this.client.getAgentRun(this.agentId, runId, options);
+        return this.toValidatedResult(run);
     }
 
     /**
      * Wait for a specific run to complete
      */
-    async waitForRun(
-        runId: string,
-        options?: {
-            pollInterval?: number;
-            timeout?: number;
-        },
-    ): Promise<AgentRunResult<TInput, TOutput>> {
+    async waitForRun(runId: string, options: RunWaitOptions = {}): Promise<AgentRunResult<TInput, TOutput>> {
         const completedRun = await this.client.waitForAgentRun(this.agentId, runId, options);
 
-        return {
-            id: completedRun.id,
-            status: completedRun.status,
-            input: completedRun.input as TInput,
-            resultData: completedRun.resultData as TOutput,
-            createdAt: completedRun.createdAt,
-            updatedAt: completedRun.updatedAt,
-            completedAt: completedRun.completedAt,
-        };
+        return this.toValidatedResult(completedRun);
     }
 
     /**
-     * Get all runs for this agent
+     * Iterate over the runs of this agent across all pages
      */
-    async getAllRuns(): Promise<AgentRunResult<TInput, TOutput>[]> {
-        const response = await this.client.listAgentRuns(this.agentId);
-        return response.items.map((run) => ({
-            id: run.id,
-            status: run.status,
-            input: run.input as TInput,
-            resultData: run.resultData as TOutput,
-            createdAt: run.createdAt,
-            updatedAt: run.updatedAt,
-            completedAt: run.completedAt,
-        }));
+    async *runs(options: ListAgentRunsOptions = {}): AsyncGenerator<AgentRunResult<TInput, TOutput>> {
+        for await (const run of this.client.iterateAgentRuns(this.agentId, options)) {
+            yield this.toValidatedResult(run);
+        }
     }
 
     /**
-     * Run multiple inputs concurrently
+     * Get all runs for this agent, optionally filtered by status and creation date
+     */
+    async getAllRuns(options: ListAgentRunsOptions = {}): Promise<AgentRunResult<TInput, TOutput>[]> {
+        const results: AgentRunResult<TInput, TOutput>[] = [];
+        for await (const result of this.runs(options)) {
+            results.push(result);
+        }
+        return results;
+    }
+
+    /**
+     * Run multiple inputs concurrently, with at most `concurrency` runs of this batch in flight
+     * and subject to the client's global in-flight run limit.
+     * A failing item never rejects the batch: it is returned with status "error" and an error message.
+     * Items whose result does not match the output schema are run again up to `outputRetries` times.
+     * Items answered from the result cache or a reused run complete without `onRunStarted` being called.
+     * `onAttemptCompleted` is called for every run started, including the ones retried for an invalid result.
+     * When `canStartRun` returns or resolves to false, e.g. because a budget is used up, the item is not
+     * run and returned with status "pending", without `onRunCompleted` being called.
+     * Aborting the signal rejects the batch with the abort reason, runs already started keep going
+     * on the server and can be awaited later through the run IDs passed to `onRunStarted`.
      */
     async runBatch(
         inputs: TInput[],
-        options?: {
-            pollInterval?: number;
-            timeout?: number;
+        options?: RunWaitOptions & {
+            concurrency?: number;
+            outputRetries?: number;
+            canStartRun?: () => boolean | Promise<boolean>;
+            onRunStarted?: (runId: string, index: number) => void;
+            onRunCompleted?: (result: AgentRunResult<TInput, TOutput>, index: number) => void;
+            onAttemptCompleted?: (result: AgentRunResult<TInput, TOutput>, index: number) => void;
         },
     ): Promise<AgentRunResult<TInput, TOutput>[]> {
-        // Start all runs
-        const runIds = await Promise.all(inputs.map((input) => this.startRun(input)));
+        const {
+            concurrency = 10,
+            outputRetries = 0,
+            canStartRun,
+            onRunStarted,
+            onRunCompleted,
+            onAttemptCompleted,
+            ...waitOptions
+        } = options ?? {};
 
-        // Wait for all runs to complete
-        const results = await Promise.all(runIds.map((runId) => this.waitForRun(runId, options)));
+        const { signal } = waitOptions;
 
-        return results;
+        return mapWithConcurrency(
+            inputs,
+            concurrency,
+            async (input, index) => {
+                const earlier = await this.findEarlierResult(input, signal);
+                if (earlier) {
+                    onRunCompleted?.(earlier, index);
+                    return earlier;
+                }
+
+                return this.client.withRunSlot(
+                    async () => {
+                        let result: AgentRunResult<TInput, TOutput> | undefined;
+                        for (let attempt = 0; ; attempt++) {
+                            // A retry that may not be started keeps the invalid result
+                            if (canStartRun && !(await canStartRun())) {
+                                break;
+                            }
+                            let runId: string | undefined;
+                            try {
+                                runId = await this.startRun(input, { signal });
+                                onRunStarted?.(runId, index);
+
+                                result = await this.waitForRun(runId, waitOptions);
+                            } catch (error) {
+                                if (signal?.aborted) {
+                                    throw error;
+                                }
+                                result = toFailedRunResult<TInput, TOutput>(input, runId, error);
+                            }
+                            onAttemptCompleted?.(result, index);
+
+                            if (result.errorKind !== "invalid-output" || attempt >= outputRetries) {
+                                break;
+                            }
+                        }
+
+                        if (!result) {
+                            return toPendingRunResult<TInput, TOutput>(input);
+                        }
+
+                        await this.toCache(input, result, signal);
+                        onRunCompleted?.(result, index);
+                        return result;
+                    },
+                    { signal },
+                );
+            },
+            signal,
+        );
     }
 
     /**
      * Get events for a specific run
      */
-    async getRunEvents(runId: string) {
-        return await this.client.getAgentRunEvents(this.agentId, runId);
+    async getRunEvents(runId: string, options: RequestOptions = {}) {
+        return await this.client.getAgentRunEvents(this.agentId, runId, options);
     }
 }
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { Server } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { MockScenario, loadScenario, startMockServer } from "./mock-server.js";
+import { PipelineResults } from "./output-writers.js";
+
+// End-to-end tests of the CLI against the scripted mock ag.dev API
+
+const APP_DIR = fileURLToPath(new URL("..", import.meta.url));
+const SCENARIO_FILE = fileURLToPath(new URL("../mock/scenario.yaml", import.meta.url));
+
+/**
+ * The bundled scenario without faults and with short run times, so runs are deterministic and fast
+ */
+function testScenario(change: (scenario: MockScenario) => MockScenario = (scenario) => scenario): MockScenario {
+    const scenario = loadScenario(SCENARIO_FILE);
+    return change({
+        ...scenario,
+        pendingMs: 10,
+        runningMs: 30,
+        faults: [],
+        agents: scenario.agents.map((agent) => ({ ...agent, runningMs: undefined })),
+    });
+}
+
+/**
+ * Run the CLI in a child process, with its run data in `dir` and the default profile pointed at the mock
+ */
+function runCli(
+    args: string[],
+    options: { dir: string; baseUrl: string },
+): Promise<{ code: number; stdout: string; stderr: string }> {
+    const env = {
+        ...process.env,
+        // Paths given to the CLI resolve from here, like from the directory npm was invoked in
+        INIT_CWD: options.dir,
+        AG_DEV_PROFILE: "default",
+        AG_DEV_BASE_URL: options.baseUrl,
+        AG_DEV_API_KEY: "mock",
+        AGENTS_LOCK_FILE: join(options.dir, "agents.lock.json"),
+        AG_DEV_POLL_MAX_INTERVAL: "100ms",
+        COMPANY_PROFILE_AGENT_ID: "mock-company-profile",
+        COMPANY_CONTACTS_AGENT_ID: "mock-company-contacts",
+        COMPANY_CONTACT_PROFILE_AGENT_ID: "mock-contact-profile",
+        CREATE_OUTREACH_EMAIL_AGENT_ID: "mock-outreach-email",
+    };
+    return new Promise((resolve) => {
+        execFile(
+            process.execPath,
+            ["--import", "tsx", "src/index.ts", ...args, "--no-progress"],
+            { cwd: APP_DIR, env, timeout: 60000 },
+            (error, stdout, stderr) =>
+                resolve({ code: typeof error?.code === "number" ? error.code : error ? 1 : 0, stdout, stderr }),
+        );
+    });
+}
+
+function readResults(filePath: string): PipelineResults {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as PipelineResults;
+}
+
+function contactsOf(results: PipelineResults, company: string): string[] {
+    const outreach = results.outreachEmails as { company: string; contact: string }[];
+    return outreach.filter((entry) => entry.company === company).map((entry) => entry.contact);
+}
+
+async function closeServer(server: Server): Promise<void> {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+describe("lead pipeline CLI", () => {
+    let dir: string;
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        dir = mkdtempSync(join(tmpdir(), "lead-pipeline-"));
+        ({ server, baseUrl } = await startMockServer(testScenario()));
+    });
+
+    after(async () => {
+        await closeServer(server);
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("writes profiles and emails for every contact", async () => {
+        writeFileSync(join(dir, "happy.csv"), "company\nAcme\n");
+
+        const { code, stderr } = await runCli(["happy.csv", "--out", "happy.json", "--no-cache"], { dir, baseUrl });
+
+        assert.equal(code, 0, stderr);
+        const results = readResults(join(dir, "happy.json"));
+        assert.deepEqual(results.failures, []);
+        assert.deepEqual(contactsOf(results, "Acme").sort(), ["Alex Example", "Sam Sample"]);
+        const profiles = results.companyProfiles as { company: string; content: string }[];
+        assert.match(profiles[0]!.content, /Acme is a fast-growing software company/);
+    });
+
+    it("writes the JSON results next to results in another format", async () => {
+        writeFileSync(join(dir, "csv.csv"), "company\nAcme\n");
+
+        const { code, stderr } = await runCli(["csv.csv", "--format", "csv", "--out", "contacts.csv"], {
+            dir,
+            baseUrl,
+        });
+
+        assert.equal(code, 0, stderr);
+        assert.match(readFileSync(join(dir, "contacts.csv"), "utf-8"), /^company,domain,contact,/);
+        assert.deepEqual(contactsOf(readResults(join(dir, "contacts.json")), "Acme").sort(), [
+            "Alex Example",
+            "Sam Sample",
+        ]);
+    });
+
+    it("exits with code 2 when an item fails and finishes it on resume", async () => {
+        writeFileSync(join(dir, "failing.csv"), "company\nAcme\nFailing Corp\n");
+
+        const failed = await runCli(["failing.csv", "--out", "failing.json", "--no-cache"], { dir, baseUrl });
+
+        assert.equal(failed.code, 2, failed.stderr);
+        const resumeHint = failed.stderr.match(/--resume (\S+)/);
+        assert.ok(resumeHint, failed.stderr);
+        const results = readResults(join(dir, "failing.json"));
+        assert.deepEqual(
+            results.failures.map((failure) => [failure.stage, failure.company]),
+            [["company-contacts", "Failing Corp"]],
+        );
+        assert.deepEqual(contactsOf(results, "Failing Corp"), []);
+
+        // The same agents on the same address, now finding a contact of Failing Corp
+        const { port } = new URL(baseUrl);
+        await closeServer(server);
+        ({ server } = await startMockServer(
+            testScenario((scenario) => ({
+                ...scenario,
+                agents: scenario.agents.map((agent) => ({
+                    ...agent,
+                    cases: agent.cases.map((script) =>
+                        script.match.company === "Failing Corp"
+                            ? {
+                                  match: script.match,
+                                  status: "done" as const,
+                                  resultData: {
+                                      contacts: [{ name: "Fran Fixed", role: "CTO", email: "fran@failing.example" }],
+                                  },
+                              }
+                            : script,
+                    ),
+                })),
+            })),
+            Number(port),
+        ));
+
+        const runDirs = readdirSync(join(dir, "data", "runs"));
+        const resumed = await runCli(["--resume", resumeHint[1]!, "--out", "resumed.json"], { dir, baseUrl });
+
+        assert.equal(resumed.code, 0, resumed.stderr);
+        const resumedResults = readResults(join(dir, "resumed.json"));
+        assert.deepEqual(resumedResults.failures, []);
+        assert.deepEqual(contactsOf(resumedResults, "Failing Corp"), ["Fran Fixed"]);
+        assert.deepEqual(contactsOf(resumedResults, "Acme").sort(), ["Alex Example", "Sam Sample"]);
+
+        // Only the failed item and what depends on it ran again
+        const response = await fetch(`${baseUrl}/v0.1/agents/mock-company-profile/runs`);
+        const { items } = (await response.json()) as { items: unknown[] };
+        assert.equal(items.length, 0);
+        assert.deepEqual(readdirSync(join(dir, "data", "runs")), runDirs);
+    });
+});
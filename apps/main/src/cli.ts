@@ -0,0 +1,51 @@
+import { resolve } from "path";
+
+import { AgDevClient } from "./ag-dev.js";
+import { Profile, config, loadProfile } from "./config.js";
+
+/**
+ * Resolve a path relative to where the command was originally run
+ */
+export function resolveFromInvocationDir(path: string): string {
+    // Use INIT_CWD (where npm was originally invoked) or current working directory
+    const originalCwd = config.INIT_CWD || process.cwd();
+    return resolve(originalCwd, path);
+}
+
+/**
+ * Load a profile, exiting with an error message if it is not configured
+ */
+export function loadProfileByName(name?: string): Profile {
+    try {
+        return loadProfile(name);
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(`Error loading profile: ${error.message}`);
+        } else {
+            console.error("Unknown error occurred while loading profile");
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Create an API client for a profile with the configured throttling, retries and completion mode
+ */
+export function createClient(profile: Profile): AgDevClient {
+    return new AgDevClient(profile.apiKey, profile.baseUrl, {
+        requestsPerSecond: config.AG_DEV_REQUESTS_PER_SECOND,
+        maxInFlightRuns: config.AG_DEV_MAX_IN_FLIGHT_RUNS,
+        retry: { maxAttempts: config.AG_DEV_MAX_ATTEMPTS },
+        completion:
+            config.AG_DEV_COMPLETION === "webhook"
+                ? {
+                      mode: "webhook",
+                      host: config.AG_DEV_WEBHOOK_HOST,
+                      port: config.AG_DEV_WEBHOOK_PORT,
+                      path: config.AG_DEV_WEBHOOK_PATH,
+                      secret: config.AG_DEV_WEBHOOK_SECRET,
+                      fallbackInterval: config.AG_DEV_WEBHOOK_FALLBACK_INTERVAL,
+                  }
+                : { mode: "poll", maxInterval: config.AG_DEV_POLL_MAX_INTERVAL },
+    });
+}
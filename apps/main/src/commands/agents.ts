@@ -0,0 +1,128 @@
+import { fileURLToPath } from "url";
+import { parseArgs as parseArgv } from "util";
+
+import {
+    AgentDefinition,
+    AgentSyncAction,
+    applyAgentSync,
+    loadAgentDefinitions,
+    planAgentSync,
+    readAgentLock,
+    writeAgentLock,
+} from "../agent-definitions.js";
+import { createClient, loadProfileByName, resolveFromInvocationDir } from "../cli.js";
+import { DEFAULT_AGENTS_LOCK_FILE, config } from "../config.js";
+
+const DEFAULT_AGENTS_DIR = fileURLToPath(new URL("../../agents", import.meta.url));
+
+function printUsage(): void {
+    console.error("Usage: npm -w @repo/main run agents -- sync [options]");
+    console.error("");
+    console.error("Create or update the ag.dev agents defined in apps/main/agents and record their IDs");
+    console.error("in agents.lock.json, where pipeline runs pick them up.");
+    console.error("");
+    console.error("Options:");
+    console.error("  --profile <name>  ag.dev profile to sync to (default: from env)");
+    console.error("  --dir <dir>       Agent definitions directory (default: apps/main/agents)");
+    console.error("  --dry-run         Show what would change without changing anything");
+    console.error("  --prune           Delete agents whose definition has been removed");
+}
+
+function formatAction(action: AgentSyncAction, dryRun: boolean): string {
+    const id = action.agentId ? ` (${action.agentId})` : "";
+    switch (action.action) {
+        case "create":
+            return `  + ${action.name}${id}${dryRun ? "" : " created"}`;
+        case "update":
+            return `  ~ ${action.name}${id}: ${action.changes!.join(", ")}${dryRun ? "" : " updated"}`;
+        case "unchanged":
+            return `  = ${action.name}${id}`;
+        case "prune":
+            return `  - ${action.name}${id}${dryRun ? "" : " deleted"}`;
+    }
+}
+
+async function syncCommand(args: string[], signal?: AbortSignal): Promise<void> {
+    let values;
+    try {
+        ({ values } = parseArgv({
+            args,
+            options: {
+                profile: { type: "string" },
+                dir: { type: "string" },
+                "dry-run": { type: "boolean", default: false },
+                prune: { type: "boolean", default: false },
+            },
+        }));
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        printUsage();
+        process.exit(1);
+    }
+
+    const profile = loadProfileByName(values.profile);
+    const dir = values.dir ? resolveFromInvocationDir(values.dir) : DEFAULT_AGENTS_DIR;
+    const lockFile = config.AGENTS_LOCK_FILE ?? DEFAULT_AGENTS_LOCK_FILE;
+    const dryRun = values["dry-run"];
+
+    let definitions: AgentDefinition[];
+    try {
+        definitions = loadAgentDefinitions(dir);
+    } catch (error) {
+        console.error(`Error loading agent definitions: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+
+    const lock = readAgentLock(lockFile);
+    const locked = lock.profiles[profile.name];
+    if (locked && locked.baseUrl !== profile.baseUrl) {
+        console.log(`Profile "${profile.name}" was synced to ${locked.baseUrl} before, agents will be created anew`);
+    }
+    const lockedAgents = locked?.baseUrl === profile.baseUrl ? locked.agents : {};
+
+    console.log(`Syncing ${definitions.length} agent(s) to profile "${profile.name}" (${profile.baseUrl})`);
+
+    const client = createClient(profile);
+    const actions = await planAgentSync(client, definitions, lockedAgents, { signal });
+
+    if (dryRun) {
+        actions.forEach((action) => console.log(formatAction(action, true)));
+        if (!values.prune && actions.some((action) => action.action === "prune")) {
+            console.log("Agents marked - are only deleted with --prune");
+        }
+        console.log("Dry run, nothing was changed");
+        return;
+    }
+
+    // Record every agent that was synced, even when a later one fails
+    const agents = { ...lockedAgents };
+    try {
+        await applyAgentSync(client, definitions, actions, agents, {
+            prune: values.prune,
+            signal,
+            onAction: (action) => console.log(formatAction(action, false)),
+        });
+    } finally {
+        lock.profiles[profile.name] = { baseUrl: profile.baseUrl, agents };
+        writeAgentLock(lockFile, lock);
+    }
+
+    if (!values.prune && actions.some((action) => action.action === "prune")) {
+        console.log("Agents whose definition was removed are kept, delete them with --prune");
+    }
+    console.log(`Agent IDs saved to: ${lockFile}`);
+}
+
+/**
+ * Manage the ag.dev agents the pipelines run
+ */
+export async function agentsCommand(args: string[], signal?: AbortSignal): Promise<void> {
+    const [subcommand, ...rest] = args;
+    switch (subcommand) {
+        case "sync":
+            return syncCommand(rest, signal);
+        default:
+            printUsage();
+            process.exit(1);
+    }
+}
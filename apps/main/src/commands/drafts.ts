@@ -0,0 +1,257 @@
+import { existsSync, writeFileSync } from "fs";
+import { parseArgs as parseArgv } from "util";
+
+import { createArcadeClient } from "@repo/arcade-gmail/arcade-client";
+import { createGmailDraft } from "@repo/arcade-gmail/gmail-draft";
+
+import { resolveFromInvocationDir } from "../cli.js";
+import { config } from "../config.js";
+import { CreateDraft, DraftEmail, DraftReportEntry, loadOutreachEmails, pushDrafts } from "../drafts.js";
+import { OutreachEmail } from "../outreach-email.js";
+import { ReviewStore, reviewFileFor } from "../review.js";
+
+function printUsage(): void {
+    console.error("Usage: npm -w @repo/main run drafts -- push <results.json> [options]");
+    console.error("");
+    console.error("Create Gmail drafts through Arcade for the outreach emails of a pipeline results file.");
+    console.error("Contacts drafted before, as recorded in the ledger, are skipped. Only the emails approved in the");
+    console.error("review are drafted, with the reviewer's edits, unless --no-review drafts them unreviewed.");
+    console.error("");
+    console.error("Options:");
+    console.error("  --dry-run           Show the drafts that would be created without creating any");
+    console.error(
+        "  --variant <name>    Email variant to draft, e.g. B, or rotate to alternate across contacts (default: A)",
+    );
+    console.error("  --review <file>     Review of the emails (default: <results>.review.json)");
+    console.error("  --no-review         Draft every email without a review");
+    console.error("  --ledger <file>     Contacts drafted so far (default: DRAFTS_LEDGER_FILE)");
+    console.error("  --report <file>     Where to write the report (default: drafts-report-<timestamp>.json)");
+    console.error("  --user-id <id>      Arcade user ID whose Gmail gets the drafts (default: ARCADE_USER_ID)");
+}
+
+/**
+ * The draft ID in the output of the Gmail.WriteDraftEmail tool, if it has one
+ */
+function draftIdOf(value: unknown): string | undefined {
+    if (typeof value === "string") {
+        try {
+            return draftIdOf(JSON.parse(value));
+        } catch {
+            return undefined;
+        }
+    }
+    if (value && typeof value === "object") {
+        const { id, draft_id: draftId } = value as Record<string, unknown>;
+        return typeof id === "string" ? id : typeof draftId === "string" ? draftId : undefined;
+    }
+    return undefined;
+}
+
+function printSummary(report: DraftReportEntry[], dryRun: boolean): void {
+    const count = (status: DraftReportEntry["status"]) => report.filter((entry) => entry.status === status).length;
+    if (dryRun) {
+        console.log(`\n${count("planned")} draft(s) would be created, ${count("skipped")} skipped`);
+    } else {
+        console.log(`\n${count("created")} draft(s) created, ${count("skipped")} skipped, ${count("failed")} failed`);
+    }
+}
+
+async function pushCommand(args: string[], signal?: AbortSignal): Promise<void> {
+    let parsed;
+    try {
+        parsed = parseArgv({
+            args,
+            options: {
+                "dry-run": { type: "boolean", default: false },
+                variant: { type: "string", default: "A" },
+                review: { type: "string" },
+                "no-review": { type: "boolean", default: false },
+                ledger: { type: "string" },
+                report: { type: "string" },
+                "user-id": { type: "string" },
+            },
+            allowPositionals: true,
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        printUsage();
+        process.exit(1);
+    }
+
+    const { values, positionals } = parsed;
+    const resultsFile = positionals[0];
+    if (!resultsFile) {
+        printUsage();
+        process.exit(1);
+    }
+    const dryRun = values["dry-run"];
+    const variant = values.variant.toUpperCase();
+    const ledgerFile = resolveFromInvocationDir(values.ledger ?? config.DRAFTS_LEDGER_FILE);
+
+    const resultsPath = resolveFromInvocationDir(resultsFile);
+    let entries: ReturnType<typeof loadOutreachEmails>;
+    try {
+        entries = loadOutreachEmails(resultsPath);
+    } catch (error) {
+        console.error(`Error reading results: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+
+    const reviewFile = values.review ? resolveFromInvocationDir(values.review) : reviewFileFor(resultsPath);
+    if (values.review && values["no-review"]) {
+        console.error("Error: --review and --no-review cannot be combined");
+        process.exit(1);
+    }
+    // Unreviewed emails are only drafted when asked for explicitly, a dry run just shows them
+    if (!values["no-review"] && !dryRun && !existsSync(reviewFile)) {
+        console.error(`Error: no review found at ${reviewFile}`);
+        console.error(
+            "Review the emails first with `npm -w @repo/main run review`, or pass --no-review to draft them all",
+        );
+        process.exit(1);
+    }
+    let review: ReviewStore | undefined;
+    if (values.review || (!values["no-review"] && existsSync(reviewFile))) {
+        try {
+            review = ReviewStore.load(reviewFile);
+        } catch (error) {
+            console.error(`Error reading review: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+        console.log(`Drafting the approved emails of ${reviewFile}`);
+    }
+
+    /**
+     * The email to draft for a contact, or why it is skipped
+     */
+    const choose = (entry: (typeof entries)[number], index: number): { chosen?: OutreachEmail; error?: string } => {
+        if (review) {
+            const key = `${entry.company}/${entry.contact}`;
+            const status = review.items.find((item) => item.key === key)?.status;
+            const chosen = review.approvedEmail(key);
+            return chosen ? { chosen } : { error: status === "rejected" ? "rejected" : "not approved" };
+        }
+        const chosen =
+            variant === "ROTATE"
+                ? entry.variants[index % Math.max(entry.variants.length, 1)]
+                : entry.variants.find((candidate) => candidate.variant === variant);
+        return chosen ? { chosen } : { error: entry.error ?? `no variant ${variant}` };
+    };
+
+    // Contacts without an address or a usable email are reported right away
+    const report: DraftReportEntry[] = [];
+    const emails: DraftEmail[] = [];
+    entries.forEach((entry, index) => {
+        const { chosen, error } = entry.email ? choose(entry, index) : { error: "no email address" };
+        if (error || !chosen) {
+            report.push({
+                company: entry.company,
+                contact: entry.contact,
+                email: entry.email ?? "",
+                status: "skipped",
+                error,
+            });
+            return;
+        }
+        emails.push({
+            company: entry.company,
+            contact: entry.contact,
+            email: entry.email!,
+            variant: chosen.variant,
+            subject: chosen.subject,
+            body: chosen.body,
+        });
+    });
+
+    if (!dryRun) {
+        const client = createArcadeClient();
+        if (!client.success) {
+            console.error(`Error: ${client.error}`);
+            process.exit(1);
+        }
+    }
+
+    const userId = values["user-id"];
+    const createDraft: CreateDraft = async (email) => {
+        const result = await createGmailDraft(
+            {
+                subject: email.subject,
+                body: email.body,
+                recipient: email.email,
+                user_id: userId,
+                // Nobody calls back here, so wait for the user to open the link
+                wait_for_authorization: true,
+            },
+            {
+                onAuthorizationRequired: (authorization) =>
+                    console.log(`Authorization required, grant Gmail access at: ${authorization.url}`),
+            },
+        );
+        if (!result.success) {
+            throw new Error(result.error ? `${result.message}: ${result.error}` : result.message);
+        }
+        return { draftId: draftIdOf(result.data?.output?.value) };
+    };
+
+    console.log(`${dryRun ? "Previewing" : "Creating"} Gmail drafts for ${entries.length} contact(s)...`);
+    report.forEach((entry) => console.log(`  - ${entry.contact} (${entry.company}): skipped, ${entry.error}`));
+
+    const pushed = await pushDrafts(emails, ledgerFile, {
+        createDraft: dryRun ? undefined : createDraft,
+        requestsPerSecond: config.DRAFTS_REQUESTS_PER_SECOND,
+        signal,
+        onDrafted: (entry, email) => {
+            const label = `${entry.contact} <${entry.email}> (${entry.company})`;
+            switch (entry.status) {
+                case "planned":
+                    console.log(`\n  ${label} [${entry.variant}]`);
+                    console.log(`  Subject: ${email.subject}`);
+                    console.log(email.body.replace(/^/gm, "    "));
+                    break;
+                case "created":
+                    console.log(`  + ${label}: draft ${entry.draftId ?? "created"}`);
+                    break;
+                case "skipped":
+                    console.log(`  - ${label}: skipped, ${entry.error}`);
+                    break;
+                case "failed":
+                    console.error(`  ! ${label}: ${entry.error}`);
+                    break;
+            }
+        },
+    });
+    report.push(...pushed);
+
+    printSummary(report, dryRun);
+    if (dryRun) {
+        console.log("Dry run, no drafts were created");
+        return;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+    const reportFile = values.report ?? `drafts-report-${timestamp}.json`;
+    writeFileSync(resolveFromInvocationDir(reportFile), JSON.stringify(report, null, 2), "utf-8");
+    console.log(`Report saved to: ${reportFile}`);
+
+    if (signal?.aborted) {
+        console.error(`Interrupted after ${pushed.length} of ${emails.length} draft(s), run again to continue`);
+        process.exitCode = 130;
+    } else if (report.some((entry) => entry.status === "failed")) {
+        // Exit code 2 signals a partial push, failed contacts are retried on the next push
+        process.exitCode = 2;
+    }
+}
+
+/**
+ * Push generated outreach emails to Gmail drafts
+ */
+export async function draftsCommand(args: string[], signal?: AbortSignal): Promise<void> {
+    const [subcommand, ...rest] = args;
+    switch (subcommand) {
+        case "push":
+            return pushCommand(rest, signal);
+        default:
+            printUsage();
+            process.exit(1);
+    }
+}
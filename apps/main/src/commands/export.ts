@@ -0,0 +1,71 @@
+import { basename, extname } from "path";
+import { parseArgs as parseArgv } from "util";
+
+import { resolveFromInvocationDir } from "../cli.js";
+import { OUTPUT_WRITERS, PipelineResults, loadResults } from "../output-writers.js";
+
+function printUsage(): void {
+    console.error("Usage: npm -w @repo/main start -- export <results.json> --format <name> [--out <path>]");
+    console.error("");
+    console.error("Write the results of an earlier run in another format, e.g. for a CRM import.");
+    console.error("");
+    console.error("Formats:");
+    Object.entries(OUTPUT_WRITERS).forEach(([name, writer]) =>
+        console.error(`  ${name.padEnd(12)}${writer.description}`),
+    );
+    console.error("");
+    console.error("Options:");
+    console.error(
+        "  --out <path>  Where to write the results (default: the results file name with the format's extension)",
+    );
+}
+
+/**
+ * Convert a JSON results file with one of the output writers
+ */
+export async function exportCommand(args: string[]): Promise<void> {
+    let parsed;
+    try {
+        parsed = parseArgv({
+            args,
+            options: {
+                format: { type: "string" },
+                out: { type: "string" },
+            },
+            allowPositionals: true,
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        printUsage();
+        process.exit(1);
+    }
+
+    const { values, positionals } = parsed;
+    const resultsFile = positionals[0];
+    const writer = values.format ? OUTPUT_WRITERS[values.format] : undefined;
+    if (!resultsFile || !writer) {
+        if (values.format && !writer) {
+            console.error(`Unknown results format: ${values.format}`);
+        }
+        printUsage();
+        process.exit(1);
+    }
+
+    let results: PipelineResults;
+    try {
+        results = loadResults(resolveFromInvocationDir(resultsFile));
+    } catch (error) {
+        console.error(`Error reading results: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+
+    const defaultName = `${basename(resultsFile, extname(resultsFile))}-${values.format}${writer.extension}`;
+    const outputPath = values.out ?? defaultName;
+    try {
+        writer.write(results, resolveFromInvocationDir(outputPath));
+    } catch (error) {
+        console.error(`Error writing results: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+    console.log(`Results saved to: ${outputPath}`);
+}
@@ -0,0 +1,118 @@
+import { parseArgs as parseArgv } from "util";
+
+import { resolveFromInvocationDir } from "../cli.js";
+import { LeadTools } from "../lead-tools.js";
+import { PipelineResults, loadResults } from "../output-writers.js";
+import { createReviewServer } from "../review-server.js";
+import { ReviewStore, reviewFileFor } from "../review.js";
+
+function printUsage(): void {
+    console.error("Usage: npm -w @repo/main run review -- <results.json> [options]");
+    console.error("");
+    console.error("Review the outreach emails of a results file in the browser before drafting them. Approve,");
+    console.error("edit, reject or regenerate every email; drafts push only drafts the approved ones.");
+    console.error("");
+    console.error("Options:");
+    console.error("  --port <port>         Port of the review page (default: 4020)");
+    console.error("  --review-file <file>  Where the review is saved (default: <results>.review.json)");
+    console.error("  --profile <name>      ag.dev profile that regenerates emails (default: from env)");
+    console.error(
+        "  --pipeline <file>     Pipeline whose outreach-email stage regenerates emails (default: PIPELINE_FILE)",
+    );
+}
+
+/**
+ * Serve the review page of a results file until interrupted
+ */
+export async function reviewCommand(args: string[], signal: AbortSignal): Promise<void> {
+    let parsed;
+    try {
+        parsed = parseArgv({
+            args,
+            options: {
+                port: { type: "string", default: "4020" },
+                "review-file": { type: "string" },
+                profile: { type: "string" },
+                pipeline: { type: "string" },
+            },
+            allowPositionals: true,
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        printUsage();
+        process.exit(1);
+    }
+
+    const { values, positionals } = parsed;
+    const resultsFile = positionals[0];
+    const port = Number(values.port);
+    if (!resultsFile || !Number.isInteger(port) || port < 0) {
+        if (resultsFile) {
+            console.error(`Invalid port: ${values.port}`);
+        }
+        printUsage();
+        process.exit(1);
+    }
+
+    const resultsPath = resolveFromInvocationDir(resultsFile);
+    let results: PipelineResults;
+    let store: ReviewStore;
+    try {
+        results = loadResults(resultsPath);
+        store = ReviewStore.open(
+            values["review-file"] ? resolveFromInvocationDir(values["review-file"]) : reviewFileFor(resultsPath),
+            resultsPath,
+            results,
+        );
+    } catch (error) {
+        console.error(`Error reading results: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+
+    // Created on the first regeneration, reviewing alone needs no ag.dev profile
+    let tools: LeadTools | undefined;
+    const server = createReviewServer(store, {
+        regenerate: async (item, feedback, variant) => {
+            const lead = results.leads.find((candidate) => candidate.company === item.company);
+            if (!lead) {
+                throw new Error(`${item.company} is not a lead of the results file`);
+            }
+            tools ??= new LeadTools({ profile: values.profile, pipelineFile: values.pipeline });
+            return tools.draftOutreach(
+                lead,
+                { name: item.contact, role: item.role, email: item.email },
+                {
+                    companyProfile: item.companyProfile ?? "",
+                    contactProfile: item.contactProfile ?? "",
+                    variants: Math.max(item.variants.length, 1),
+                    feedback,
+                    previousEmail: variant ?? item.variants[0],
+                    signal,
+                },
+            );
+        },
+    });
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(port, "127.0.0.1", () => resolve());
+        });
+    } catch (error) {
+        console.error(`Error starting the review page: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+
+    console.log(`Reviewing ${store.items.length} email(s) at http://127.0.0.1:${port}/`);
+    console.log(`Review saved to: ${store.filePath}`);
+    console.log("Press Ctrl+C to stop");
+
+    if (!signal.aborted) {
+        await new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve(), { once: true }));
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    const count = (status: string) => store.items.filter((item) => item.status === status).length;
+    console.log(`${count("approved")} approved, ${count("rejected")} rejected, ${count("pending")} pending`);
+}
@@ -0,0 +1,535 @@
+import { parseArgs as parseArgv } from "util";
+
+import { FailureKind } from "../agent.js";
+import { createClient, loadProfileByName, resolveFromInvocationDir } from "../cli.js";
+import { DEFAULT_PIPELINE_FILE, Profile, config } from "../config.js";
+import { formatDuration, parseDuration } from "../duration.js";
+import { LeadDatabase, LeadDatabaseChanges, LeadDatabaseRecorder } from "../lead-database.js";
+import { ResultCache } from "../result-cache.js";
+import { RunStore } from "../run-store.js";
+import { EventFollower } from "../follow.js";
+import { Lead, LeadFormat, LeadLoaderOptions, loadLeads, parseColumnMappings } from "../leads.js";
+import { OUTPUT_WRITERS, PipelineResults, jsonResultsPathFor } from "../output-writers.js";
+import { PipelineDefinition, loadPipeline } from "../pipeline-definition.js";
+import { PipelineResult, StageFailure, StageSummary, runPipeline } from "../pipeline.js";
+import { ProgressDashboard } from "../progress.js";
+import { UsageBudget, UsageSummary, UsageTotals, UsageTracker, parseBudget } from "../usage.js";
+
+interface CliArgs {
+    filePath?: string;
+    resume?: string;
+    pipeline?: string;
+    profile?: string;
+    follow?: string;
+    progress: boolean;
+    cache: boolean;
+    reuseRuns: boolean;
+    refresh: string[];
+    // Results recorded in the lead database at or after this time are kept (incremental mode)
+    freshSince?: Date;
+    budget: UsageBudget;
+    format: string;
+    out?: string;
+    leadOptions: LeadLoaderOptions;
+}
+
+function printUsage(): void {
+    console.error("Usage: npm -w @repo/main start -- <leads-file> [options]");
+    console.error("       npm -w @repo/main start -- --resume <run-dir>");
+    console.error("");
+    console.error("Options:");
+    console.error("  --input-format <csv|tsv|json|jsonl>  Lead file format (default: from the file extension)");
+    console.error("  --header / --no-header               Whether a CSV/TSV file has a header row (default: detected)");
+    console.error(
+        '  --column <field>=<column>            Map a lead field to a source column, e.g. company="Account Name"',
+    );
+    console.error("  --pipeline <file>                    Pipeline definition, YAML or JSON (default: outreach)");
+    console.error(
+        "  --profile <name>                     ag.dev profile, e.g. local, staging or prod (default: from env)",
+    );
+    console.error("  --resume <run-dir>                   Resume an interrupted run");
+    console.error(
+        '  --follow <company>                   Print the run events of one lead, or one item as "company/contact"',
+    );
+    console.error("  --no-progress                        Do not show the live progress dashboard");
+    console.error("  --no-cache                           Run every agent again instead of reusing cached results");
+    console.error(
+        "  --reuse-runs                         Reuse earlier runs on ag.dev with an identical input (REUSE_RUNS_MAX_AGE)",
+    );
+    console.error(
+        "  --refresh <stage>                    Run a stage again instead of reusing cached results (repeatable)",
+    );
+    console.error("  --stale-after <duration>             Only run new leads and results older than this, e.g. 30d");
+    console.error(
+        "  --since <date>                       Only run new leads and results from before this date, e.g. 2026-01-31",
+    );
+    console.error(
+        "  --budget <limits>                    Stop starting agent runs at a run count or cost, e.g. runs=200,cost=5",
+    );
+    console.error(
+        `  --format <name>                      Results format: ${Object.keys(OUTPUT_WRITERS).join(", ")} (default: json)`,
+    );
+    console.error(
+        "  --out <path>                         Where to write the results (default: company-results-<timestamp>)",
+    );
+    console.error("");
+    console.error('Example: npm -w @repo/main start -- ./leads.csv --column company="Account Name"');
+}
+
+function parseArgs(args: string[]): CliArgs {
+    let parsed;
+    try {
+        parsed = parseArgv({
+            args,
+            options: {
+                resume: { type: "string" },
+                pipeline: { type: "string" },
+                profile: { type: "string" },
+                "input-format": { type: "string" },
+                header: { type: "boolean" },
+                "no-header": { type: "boolean" },
+                column: { type: "string", multiple: true },
+                follow: { type: "string" },
+                "no-progress": { type: "boolean" },
+                "no-cache": { type: "boolean" },
+                "reuse-runs": { type: "boolean" },
+                refresh: { type: "string", multiple: true },
+                "stale-after": { type: "string" },
+                since: { type: "string" },
+                budget: { type: "string" },
+                format: { type: "string", default: "json" },
+                out: { type: "string" },
+            },
+            allowPositionals: true,
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        printUsage();
+        process.exit(1);
+    }
+
+    const { values, positionals } = parsed;
+
+    if (!values.resume && !positionals[0]) {
+        printUsage();
+        process.exit(1);
+    }
+
+    const format = values["input-format"];
+    if (format && !["csv", "tsv", "json", "jsonl"].includes(format)) {
+        console.error(`Unknown input format: ${format}`);
+        printUsage();
+        process.exit(1);
+    }
+
+    if (!OUTPUT_WRITERS[values.format]) {
+        console.error(`Unknown results format: ${values.format}`);
+        printUsage();
+        process.exit(1);
+    }
+
+    if (values["stale-after"] && values.since) {
+        console.error("--stale-after and --since cannot be combined");
+        printUsage();
+        process.exit(1);
+    }
+
+    let freshSince: Date | undefined;
+    try {
+        if (values["stale-after"]) {
+            freshSince = new Date(Date.now() - parseDuration(values["stale-after"]));
+        } else if (values.since) {
+            freshSince = new Date(values.since);
+            if (Number.isNaN(freshSince.getTime())) {
+                throw new Error(`Invalid date "${values.since}", expected e.g. 2026-01-31`);
+            }
+        }
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    }
+
+    let budget: UsageBudget = {};
+    try {
+        budget = values.budget ? parseBudget(values.budget) : {};
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    }
+
+    let columns: Record<string, string>;
+    try {
+        columns = parseColumnMappings(values.column ?? []);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    }
+
+    return {
+        filePath: positionals[0],
+        resume: values.resume,
+        pipeline: values.pipeline,
+        profile: values.profile,
+        follow: values.follow,
+        progress: !values["no-progress"],
+        cache: !values["no-cache"],
+        reuseRuns: values["reuse-runs"] ?? false,
+        refresh: values.refresh ?? [],
+        freshSince,
+        budget,
+        format: values.format,
+        out: values.out,
+        leadOptions: {
+            format: format as LeadFormat | undefined,
+            header: values.header ? true : values["no-header"] ? false : undefined,
+            columns,
+        },
+    };
+}
+
+function loadLeadsFromFile(filePath: string, options: LeadLoaderOptions): Lead[] {
+    try {
+        const absolutePath = resolveFromInvocationDir(filePath);
+        const { leads, duplicates } = loadLeads(absolutePath, options);
+
+        if (duplicates > 0) {
+            console.log(`Skipped ${duplicates} duplicate compan${duplicates === 1 ? "y" : "ies"}`);
+        }
+
+        return leads;
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(`Error reading file: ${error.message}`);
+        } else {
+            console.error("Unknown error occurred while reading file");
+        }
+        process.exit(1);
+    }
+}
+
+function loadPipelineFromFile(filePath: string): PipelineDefinition {
+    try {
+        return loadPipeline(filePath);
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(`Error loading pipeline: ${error.message}`);
+        } else {
+            console.error("Unknown error occurred while loading pipeline");
+        }
+        process.exit(1);
+    }
+}
+
+function saveResults(
+    leads: Lead[],
+    pipelineResult: PipelineResult,
+    usage: UsageSummary,
+    format: string,
+    outputPath: string,
+): void {
+    try {
+        const absolutePath = resolveFromInvocationDir(outputPath);
+
+        const results: PipelineResults = {
+            leads,
+            ...pipelineResult.outputs,
+            failures: pipelineResult.failures,
+            usage,
+            // Partial results of an interrupted run
+            ...(pipelineResult.cancelled ? { cancelled: true } : {}),
+        };
+
+        OUTPUT_WRITERS[format]!.write(results, absolutePath);
+        console.log(`\nResults saved to: ${outputPath}`);
+        // review, drafts push and export read the JSON results, so they are kept whatever the format
+        if (format !== "json") {
+            const jsonPath = jsonResultsPathFor(outputPath);
+            OUTPUT_WRITERS.json!.write(results, resolveFromInvocationDir(jsonPath));
+            console.log(`JSON results saved to: ${jsonPath}`);
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            console.error(`Error writing file: ${error.message}`);
+        } else {
+            console.error("Unknown error occurred while writing file");
+        }
+        process.exit(1);
+    }
+}
+
+const FAILURE_KIND_LABELS: Record<FailureKind, string> = {
+    run: "run failed",
+    timeout: "timed out",
+    "invalid-input": "invalid input",
+    "invalid-output": "invalid output",
+};
+
+function printFailureSummary(failures: StageFailure[]): void {
+    const byStage = new Map<string, StageFailure[]>();
+    failures.forEach((failure) => byStage.set(failure.stage, [...(byStage.get(failure.stage) ?? []), failure]));
+
+    console.error(`\n${failures.length} item(s) failed:`);
+    byStage.forEach((stageFailures, stage) => {
+        const kinds = (Object.keys(FAILURE_KIND_LABELS) as FailureKind[])
+            .map((kind) => [kind, stageFailures.filter((failure) => failure.kind === kind).length] as const)
+            .filter(([, count]) => count > 0)
+            .map(([kind, count]) => `${count} ${FAILURE_KIND_LABELS[kind]}`);
+        console.error(`  ${stage}: ${stageFailures.length} (${kinds.join(", ")})`);
+    });
+    failures.forEach((failure) => {
+        const item = failure.item ? `${failure.company} / ${failure.item}` : failure.company;
+        console.error(`  [${failure.stage}] ${item} (${FAILURE_KIND_LABELS[failure.kind]}): ${failure.error}`);
+    });
+}
+
+function printStageSummary(stages: StageSummary[], cache?: ResultCache): void {
+    console.log("\nStage summary:");
+    stages.forEach((stage) => {
+        const sources = [
+            stage.cached > 0 ? `${stage.cached} from cache` : "",
+            stage.reused > 0 ? `${stage.reused} reused` : "",
+            stage.unchanged > 0 ? `${stage.unchanged} unchanged` : "",
+        ].filter(Boolean);
+        const cached = sources.length > 0 ? ` (${sources.join(", ")})` : "";
+        const cancelled = stage.cancelled > 0 ? `, ${stage.cancelled} cancelled` : "";
+        console.log(
+            `  ${stage.stage}: ${stage.done} done${cached}, ${stage.failed} failed, ${stage.skipped} skipped${cancelled}`,
+        );
+    });
+    if (cache) {
+        const { hits, misses, writes } = cache.stats;
+        console.log(`Result cache: ${hits} hit(s), ${misses} miss(es), ${writes} result(s) cached`);
+    }
+}
+
+function formatUsage(totals: UsageTotals): string {
+    const parts = [
+        `${totals.runs} run(s)${totals.failed > 0 ? ` (${totals.failed} failed)` : ""}`,
+        formatDuration(totals.durationMs),
+        `${totals.polls} poll(s)`,
+    ];
+    if (totals.inputTokens > 0 || totals.outputTokens > 0) {
+        parts.push(
+            `${totals.inputTokens.toLocaleString("en-US")} in / ${totals.outputTokens.toLocaleString("en-US")} out tokens`,
+        );
+    }
+    if (totals.toolCalls > 0) {
+        parts.push(`${totals.toolCalls} tool call(s)`);
+    }
+    if (totals.cost !== undefined) {
+        parts.push(`cost ${totals.cost.toFixed(2)}`);
+    }
+    return parts.join(", ");
+}
+
+function printUsageSummary(usage: UsageSummary): void {
+    if (usage.total.runs === 0) {
+        console.log("\nUsage: no agent runs were started");
+        return;
+    }
+    console.log(`\nUsage: ${formatUsage(usage.total)}`);
+    console.log("  By stage:");
+    usage.stages.forEach(({ stage, ...totals }) => console.log(`    ${stage}: ${formatUsage(totals)}`));
+    console.log("  By company:");
+    usage.companies.forEach(({ company, ...totals }) => console.log(`    ${company}: ${formatUsage(totals)}`));
+}
+
+function printDatabaseChanges(changes: LeadDatabaseChanges): void {
+    console.log(
+        `Lead database: ${changes.newCompanies} new compan${changes.newCompanies === 1 ? "y" : "ies"}, ` +
+            `${changes.newContacts} new contact(s), ${changes.removedContacts.length} contact(s) no longer listed`,
+    );
+    changes.removedContacts.forEach(({ company, contact }) =>
+        console.log(`  no longer listed: ${company} / ${contact}`),
+    );
+}
+
+/**
+ * Run the lead pipeline for a leads file, or resume an interrupted run
+ */
+export async function runCommand(args: string[], signal?: AbortSignal): Promise<void> {
+    const {
+        filePath,
+        resume,
+        pipeline: pipelineArg,
+        profile: profileArg,
+        follow,
+        progress,
+        cache: cacheEnabled,
+        reuseRuns,
+        refresh,
+        freshSince,
+        budget,
+        format,
+        out,
+        leadOptions,
+    } = parseArgs(args);
+
+    // Generate a timestamp for the run directory and output filename
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+    let store: RunStore;
+    let pipelineFile: string;
+    let pipeline: PipelineDefinition;
+    let profile: Profile;
+    if (resume) {
+        try {
+            store = RunStore.open(resolveFromInvocationDir(resume));
+        } catch (error) {
+            console.error(`Error opening run: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+        // Keep using the pipeline the run was started with unless told otherwise
+        pipelineFile = pipelineArg
+            ? resolveFromInvocationDir(pipelineArg)
+            : (store.manifest.pipelineFile ?? DEFAULT_PIPELINE_FILE);
+        pipeline = loadPipelineFromFile(pipelineFile);
+        // Run IDs only exist on the endpoint the run was started against
+        profile = loadProfileByName(profileArg ?? store.manifest.profile);
+        console.log(`Resuming run from: ${store.dir}`);
+        console.log("---");
+    } else {
+        pipelineFile = resolveFromInvocationDir(pipelineArg ?? config.PIPELINE_FILE ?? DEFAULT_PIPELINE_FILE);
+        pipeline = loadPipelineFromFile(pipelineFile);
+        profile = loadProfileByName(profileArg);
+
+        console.log(`Loading companies from: ${filePath}`);
+        console.log("---");
+
+        const leads = loadLeadsFromFile(filePath!, leadOptions);
+
+        if (leads.length === 0) {
+            console.log("No companies found in the file.");
+            return;
+        }
+
+        store = RunStore.create(resolveFromInvocationDir(`data/runs/${timestamp}`), {
+            sourceFile: filePath!,
+            pipelineFile,
+            profile: profile.name,
+            leads,
+            createdAt: new Date().toISOString(),
+        });
+        console.log(`Checkpoints are saved to: ${store.dir}`);
+        console.log(`Resume an interrupted run with: --resume ${store.dir}`);
+    }
+
+    const leads = store.manifest.leads;
+
+    const unknownStages = refresh.filter((stage) => !pipeline.stages.some(({ id }) => id === stage));
+    if (unknownStages.length > 0) {
+        console.error(`Error: --refresh ${unknownStages.join(", ")} is not a stage of the ${pipeline.name} pipeline`);
+        process.exit(1);
+    }
+    const cache = cacheEnabled
+        ? new ResultCache(resolveFromInvocationDir(config.RESULT_CACHE_DIR), config.RESULT_CACHE_TTL)
+        : undefined;
+
+    let database: LeadDatabase;
+    try {
+        database = LeadDatabase.open(resolveFromInvocationDir(config.LEAD_DATABASE_FILE));
+    } catch (error) {
+        console.error(`Error opening lead database: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+    const recorder = new LeadDatabaseRecorder(database, pipeline, store);
+    if (freshSince) {
+        console.log(`Incremental run, keeping results from ${freshSince.toISOString()} or later`);
+    }
+
+    const agDevClient = createClient(profile);
+    try {
+        await agDevClient.completions.start();
+    } catch (error) {
+        console.error(`Error starting the webhook receiver: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
+    if (config.AG_DEV_COMPLETION === "webhook") {
+        console.log(
+            `Waiting for run callbacks on ${config.AG_DEV_WEBHOOK_HOST}:${config.AG_DEV_WEBHOOK_PORT} at ${config.AG_DEV_WEBHOOK_PATH}`,
+        );
+    }
+    const usage = new UsageTracker(agDevClient, budget);
+
+    console.log(`Using profile "${profile.name}" (${profile.baseUrl})`);
+    console.log(`Processing ${leads.length} companies with the ${pipeline.name} pipeline...`);
+
+    // Following a run prints its events as they happen, which the dashboard would draw over
+    const dashboard = progress && !follow ? new ProgressDashboard(pipeline.stages.map((stage) => stage.id)) : undefined;
+    const follower = follow ? new EventFollower(agDevClient, follow) : undefined;
+    if (follower && !leads.some((lead) => follower.matchesLead(lead.company))) {
+        console.error(`Error: --follow "${follow}" does not match any company in the leads`);
+        process.exit(1);
+    }
+
+    dashboard?.start();
+    let result: PipelineResult;
+    try {
+        result = await runPipeline(pipeline, leads, {
+            client: agDevClient,
+            store,
+            agentIds: profile.agentIds,
+            concurrency: config.AGENT_BATCH_CONCURRENCY,
+            timeout: config.AGENT_RUN_TIMEOUT,
+            cache,
+            reuseRuns: reuseRuns ? { maxAge: config.REUSE_RUNS_MAX_AGE } : undefined,
+            // Stages marked `rerun` always run again in incremental mode
+            refresh: freshSince
+                ? [...new Set([...refresh, ...pipeline.stages.filter((stage) => stage.rerun).map(({ id }) => id)])]
+                : refresh,
+            usage,
+            previousResult: freshSince ? (stage, item) => database.previousResult(stage, item, freshSince) : undefined,
+            signal,
+            log: dashboard ? (message) => dashboard.log(message) : undefined,
+            onEvent: (event) => {
+                dashboard?.handle(event);
+                follower?.handle(event);
+                recorder.handle(event);
+            },
+        });
+    } finally {
+        dashboard?.stop();
+        await follower?.stop();
+        // Settles whatever is still waited for and stops the webhook receiver
+        await agDevClient.completions.close();
+    }
+
+    // Save all results in the requested format, and as JSON for the other commands
+    const usageSummary = await usage.summary();
+    const outputPath = out ?? `company-results-${timestamp}${OUTPUT_WRITERS[format]!.extension}`;
+    saveResults(leads, result, usageSummary, format, outputPath);
+
+    printStageSummary(result.stages, cache);
+    printUsageSummary(usageSummary);
+    try {
+        printDatabaseChanges(recorder.finish());
+    } catch (error) {
+        console.error(`Error saving lead database: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (result.cancelled) {
+        if (result.failures.length > 0) {
+            printFailureSummary(result.failures);
+        }
+        // The ag.dev API cannot cancel runs, the ones in flight finish on their own and are picked up on resume
+        console.error(`\nRun interrupted, runs still in flight are re-attached with: --resume ${store.dir}`);
+        process.exitCode = 130;
+        return;
+    }
+
+    console.log("Done!");
+
+    if (result.failures.length > 0) {
+        printFailureSummary(result.failures);
+        console.error(`Re-run the failed items with: --resume ${store.dir}`);
+        // Exit code 2 signals a partial run, 1 is reserved for fatal errors
+        process.exitCode = 2;
+    }
+
+    if (usageSummary.budgetExceeded) {
+        const notStarted = result.stages.reduce((total, stage) => total + stage.cancelled, 0);
+        console.error(`\nStopped starting agent runs, ${usageSummary.budgetExceeded} (${notStarted} item(s) not run)`);
+        console.error(`Run the remaining items with: --resume ${store.dir} --budget <limits>`);
+        process.exitCode = 2;
+    }
+}
@@ -1,6 +1,12 @@
 import { config as dotenvConfig } from "dotenv";
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import { fileURLToPath } from "url";
+import { parse as parseYaml } from "yaml";
 import { z } from "zod";
 
+import { durationSchema } from "./duration.js";
+
 dotenvConfig();
 
 // Utility function for parsing boolean environment variables
@@ -14,6 +20,9 @@ function booleanEnv(defaultValue: string) {
         });
 }
 
+// Name of the profile built from the environment variables below
+export const DEFAULT_PROFILE = "default";
+
 const configSchema = z.object({
     // Runtime configuration
     NODE_ENV: z.string().default("development"),
@@ -21,15 +30,205 @@ const configSchema = z.object({
     // Application settings
     ENABLE_DEBUG: booleanEnv("false"),
 
-    // API configurations (for potential future use with ag.dev)
-    AG_DEV_API_KEY: z.string(),
+    // Directory npm was invoked in, paths given on the command line resolve from it
+    INIT_CWD: z.string().optional(),
+
+    // API configurations, used by the default profile
+    AG_DEV_API_KEY: z.string().optional(),
     AG_DEV_BASE_URL: z.string().default("https://api.ag.dev"),
 
+    // Named profiles (see ag-dev.profiles.yaml), selected with --profile or AG_DEV_PROFILE
+    AG_DEV_PROFILE: z.string().default(DEFAULT_PROFILE),
+    AG_DEV_PROFILES_FILE: z.string().optional(),
+
+    // Agent IDs written by `agents sync`, per profile
+    AGENTS_LOCK_FILE: z.string().optional(),
+
+    // Throttling (0 = no limit)
+    AG_DEV_REQUESTS_PER_SECOND: z.coerce.number().min(0).default(10),
+    AG_DEV_MAX_IN_FLIGHT_RUNS: z.coerce.number().int().min(0).default(50),
+    AGENT_BATCH_CONCURRENCY: z.coerce.number().int().min(0).default(10),
+
+    // Retries with exponential backoff on rate limits, server and network errors (1 = no retries)
+    AG_DEV_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+
+    // How completed runs are noticed: "poll" checks them with an interval growing up to
+    // AG_DEV_POLL_MAX_INTERVAL, "webhook" waits for the platform to post to a local receiver
+    // and only checks every AG_DEV_WEBHOOK_FALLBACK_INTERVAL in case a callback is lost. The
+    // receiver listens on loopback unless AG_DEV_WEBHOOK_HOST says otherwise, which needs a secret.
+    AG_DEV_COMPLETION: z.enum(["poll", "webhook"]).default("poll"),
+    AG_DEV_POLL_MAX_INTERVAL: durationSchema.prefault("15s"),
+    AG_DEV_WEBHOOK_HOST: z.string().default("127.0.0.1"),
+    AG_DEV_WEBHOOK_PORT: z.coerce.number().int().min(0).default(4011),
+    AG_DEV_WEBHOOK_PATH: z.string().default("/ag-dev/runs"),
+    AG_DEV_WEBHOOK_SECRET: z.string().optional(),
+    AG_DEV_WEBHOOK_FALLBACK_INTERVAL: durationSchema.prefault("1m"),
+
+    // How long to wait for an agent run, e.g. 90s, 30m or 2h (0 = no limit). Stages can set their own.
+    AGENT_RUN_TIMEOUT: durationSchema.prefault("30m"),
+
+    // How long agent results are reused for identical input, e.g. 12h or 7d (0 = forever)
+    RESULT_CACHE_TTL: durationSchema.prefault("7d"),
+    RESULT_CACHE_DIR: z.string().default("data/cache"),
+
+    // How old a run on the server may be to be reused with --reuse-runs (0 = any age)
+    REUSE_RUNS_MAX_AGE: durationSchema.prefault("7d"),
+
+    // Every company and contact processed with the latest stage results, incremental runs
+    // (--stale-after/--since) skip what it holds fresh results for
+    LEAD_DATABASE_FILE: z.string().default("data/lead-database.sqlite"),
+
+    // Gmail drafts created with `drafts push`, through Arcade with ARCADE_API_KEY and ARCADE_USER_ID
+    // Contacts drafted so far, so pushing the same results again skips them
+    DRAFTS_LEDGER_FILE: z.string().default("data/drafts-ledger.json"),
+    DRAFTS_REQUESTS_PER_SECOND: z.coerce.number().min(0).default(1),
+
+    // Pipeline definition, defaults to the bundled outreach pipeline
+    PIPELINE_FILE: z.string().optional(),
+
     // Agent Configs
-    COMPANY_PROFILE_AGENT_ID: z.string(),
-    COMPANY_CONTACTS_AGENT_ID: z.string(),
-    COMPANY_CONTACT_PROFILE_AGENT_ID: z.string(),
-    CREATE_OUTREACH_EMAIL_AGENT_ID: z.string(),
+    COMPANY_PROFILE_AGENT_ID: z.string().optional(),
+    COMPANY_CONTACTS_AGENT_ID: z.string().optional(),
+    COMPANY_CONTACT_PROFILE_AGENT_ID: z.string().optional(),
+    CREATE_OUTREACH_EMAIL_AGENT_ID: z.string().optional(),
 });
 
 export const config = configSchema.parse(process.env);
+
+// Prefix for naming further agents without code changes, e.g. AGENT_ID_COMPETITOR_ANALYSIS=...
+// becomes the agent "competitor-analysis" that pipeline stages can refer to
+const AGENT_ID_PREFIX = "AGENT_ID_";
+
+/**
+ * Named agents of the default profile, mapped to their ag.dev agent IDs
+ */
+const envAgentIds: Record<string, string> = Object.fromEntries(
+    [
+        ["company-profile", config.COMPANY_PROFILE_AGENT_ID],
+        ["company-contacts", config.COMPANY_CONTACTS_AGENT_ID],
+        ["contact-profile", config.COMPANY_CONTACT_PROFILE_AGENT_ID],
+        ["outreach-email", config.CREATE_OUTREACH_EMAIL_AGENT_ID],
+        ...Object.entries(process.env)
+            .filter(([name]) => name.startsWith(AGENT_ID_PREFIX))
+            .map(([name, value]) => [name.slice(AGENT_ID_PREFIX.length).toLowerCase().replace(/_/g, "-"), value]),
+    ].filter((entry): entry is [string, string] => Boolean(entry[1])),
+);
+
+export type LockedAgent = {
+    id: string;
+    // Hash of the definition the agent was last synced from
+    hash: string;
+    syncedAt: string;
+};
+
+export type AgentLock = {
+    profiles: Record<string, { baseUrl: string; agents: Record<string, LockedAgent> }>;
+};
+
+export type Profile = {
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    // Named agents that pipeline definitions refer to, mapped to their ag.dev agent IDs
+    agentIds: Record<string, string>;
+};
+
+const profilesFileSchema = z.object({
+    profiles: z.record(
+        z.string(),
+        z.object({
+            baseUrl: z.string().default("https://api.ag.dev"),
+            apiKey: z.string(),
+            agents: z.record(z.string(), z.string()).default({}),
+        }),
+    ),
+});
+
+const DEFAULT_PROFILES_FILE = fileURLToPath(new URL("../ag-dev.profiles.yaml", import.meta.url));
+
+export const DEFAULT_AGENTS_LOCK_FILE = fileURLToPath(new URL("../agents.lock.json", import.meta.url));
+
+export const DEFAULT_PIPELINE_FILE = fileURLToPath(new URL("../pipelines/outreach.yaml", import.meta.url));
+
+/**
+ * Replace `${VAR}` references with environment variables, so config files never hold secrets
+ */
+export function interpolateEnv(value: string, source: string): string {
+    return value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, name: string) => {
+        const envValue = process.env[name];
+        if (envValue === undefined) {
+            throw new Error(`${source} references ${name}, which is not set`);
+        }
+        return envValue;
+    });
+}
+
+/**
+ * Whether every `${VAR}` reference in a value is set
+ */
+function envReferencesSet(value: string): boolean {
+    return [...value.matchAll(/\$\{([A-Za-z0-9_]+)\}/g)].every((match) => process.env[match[1]!] !== undefined);
+}
+
+/**
+ * Agent IDs that `agents sync` recorded for a profile
+ */
+function lockedAgentIds(profile: string): Record<string, string> {
+    const filePath = config.AGENTS_LOCK_FILE ?? DEFAULT_AGENTS_LOCK_FILE;
+    if (!existsSync(filePath)) {
+        return {};
+    }
+    const lock = JSON.parse(readFileSync(filePath, "utf-8")) as AgentLock;
+    return Object.fromEntries(
+        Object.entries(lock.profiles[profile]?.agents ?? {}).map(([name, agent]) => [name, agent.id]),
+    );
+}
+
+/**
+ * Load a named profile. The default profile is built from the environment variables,
+ * any other one is read from the profiles file. Agent IDs recorded by `agents sync`
+ * fill in for agents the profile does not configure explicitly.
+ */
+export function loadProfile(name = config.AG_DEV_PROFILE): Profile {
+    if (name === DEFAULT_PROFILE) {
+        if (!config.AG_DEV_API_KEY) {
+            throw new Error("AG_DEV_API_KEY environment variable is not set");
+        }
+        return {
+            name,
+            baseUrl: config.AG_DEV_BASE_URL,
+            apiKey: config.AG_DEV_API_KEY,
+            agentIds: { ...lockedAgentIds(name), ...envAgentIds },
+        };
+    }
+
+    const filePath = config.AG_DEV_PROFILES_FILE ?? DEFAULT_PROFILES_FILE;
+    if (!existsSync(filePath)) {
+        throw new Error(`Profile "${name}" requested but no profiles file found at ${filePath}`);
+    }
+
+    const content = readFileSync(filePath, "utf-8");
+    const raw = extname(filePath).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+    const { profiles } = profilesFileSchema.parse(raw);
+
+    const profile = profiles[name];
+    if (!profile) {
+        const available = [DEFAULT_PROFILE, ...Object.keys(profiles)].join(", ");
+        throw new Error(`Unknown profile "${name}", available profiles: ${available}`);
+    }
+
+    return {
+        name,
+        baseUrl: interpolateEnv(profile.baseUrl, `Profile "${name}"`),
+        apiKey: interpolateEnv(profile.apiKey, `Profile "${name}"`),
+        agentIds: {
+            ...lockedAgentIds(name),
+            // Agent IDs referencing unset variables are left to the lock file
+            ...Object.fromEntries(
+                Object.entries(profile.agents)
+                    .filter(([, agentId]) => envReferencesSet(agentId))
+                    .map(([agent, agentId]) => [agent, interpolateEnv(agentId, `Profile "${name}"`)]),
+            ),
+        },
+    };
+}
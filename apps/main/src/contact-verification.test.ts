@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { normalizeEmail, normalizeName, verifyContacts } from "./contact-verification.js";
+
+describe("normalizeName", () => {
+    it("drops honorifics and degrees and fixes the case of shouted or lowercase names", () => {
+        assert.equal(normalizeName("  DR. JANE   DOE, PhD "), "Jane Doe");
+        assert.equal(normalizeName("mary-ann o'neil"), "Mary-Ann O'Neil");
+        assert.equal(normalizeName("John Smith Jr."), "John Smith");
+        assert.equal(normalizeName("Zoë van Dijk"), "Zoë van Dijk");
+    });
+});
+
+describe("normalizeEmail", () => {
+    it("cleans up addresses and rejects invalid ones", () => {
+        assert.equal(normalizeEmail(" mailto:Jane.Doe@Acme.COM "), "jane.doe@acme.com");
+        assert.equal(normalizeEmail("<kim@globex.example>"), "kim@globex.example");
+        assert.equal(normalizeEmail("john.smith@acme"), undefined);
+        assert.equal(normalizeEmail("not an email"), undefined);
+    });
+});
+
+describe("verifyContacts", () => {
+    it("scores, repairs and deduplicates the contacts of a company", async () => {
+        const [acme] = await verifyContacts(
+            [
+                {
+                    company: "Acme",
+                    domain: "https://www.acme.example/about",
+                    contacts: [
+                        { name: "Jane Doe", role: "CEO", email: "jane.doe@acme.example" },
+                        { name: "John Smith", role: "CTO", email: "john.smith@acme" },
+                        { name: "Front Desk", email: "info@acme.example" },
+                        { name: "JANE DOE", email: "jane@gmail.com" },
+                        { email: "nobody@acme.example" },
+                    ],
+                },
+            ],
+            { minConfidence: 0.3 },
+        );
+
+        assert.equal(acme?.domain, "acme.example");
+        assert.equal(acme?.pattern, "first.last");
+        assert.deepEqual(acme?.contacts, [
+            {
+                name: "Jane Doe",
+                role: "CEO",
+                email: "jane.doe@acme.example",
+                confidence: 1,
+                flags: [],
+                pattern: "first.last",
+                originalEmail: undefined,
+            },
+            {
+                name: "John Smith",
+                role: "CTO",
+                email: "john.smith@acme.example",
+                confidence: 0.5,
+                flags: ["guessed"],
+                pattern: "first.last",
+                originalEmail: "john.smith@acme",
+            },
+        ]);
+        assert.deepEqual(
+            acme?.removed.map(({ name, reason }) => [name, reason]),
+            [
+                ["", "no name"],
+                ["Jane Doe", "duplicate of Jane Doe"],
+                ["Front Desk", "confidence 0.2 below 0.3"],
+            ],
+        );
+    });
+
+    it("keeps an address listed for several companies only for the first one", async () => {
+        const [acme, globex] = await verifyContacts(
+            [
+                { company: "Acme", contacts: [{ name: "Jane Doe", email: "jane.doe@acme.example" }] },
+                { company: "Globex", contacts: [{ name: "Jane Doe", email: "jane.doe@acme.example" }] },
+            ],
+            { minConfidence: 0 },
+        );
+
+        assert.equal(acme?.contacts.length, 1);
+        assert.deepEqual(globex?.contacts, []);
+        assert.equal(globex?.removed[0]?.reason, "also listed for Acme");
+    });
+
+    it("checks every mail domain once and removes addresses of domains without mail", async () => {
+        const checked: string[] = [];
+        const [company] = await verifyContacts(
+            [
+                {
+                    company: "Initech",
+                    domain: "initech.example",
+                    contacts: [
+                        { name: "Peter Gibbons", email: "peter.gibbons@initech.example" },
+                        { name: "Bill Lumbergh", email: "bill.lumbergh@initech.example" },
+                        { name: "Milton Waddams", email: "milton@basement.example" },
+                    ],
+                },
+            ],
+            {
+                minConfidence: 0.3,
+                checkDomain: async (domain) => {
+                    checked.push(domain);
+                    return domain === "basement.example" ? { mx: false } : { mx: true, catchAll: true };
+                },
+            },
+        );
+
+        assert.deepEqual(checked, ["initech.example", "basement.example"]);
+        assert.deepEqual(
+            company?.contacts.map(({ name, flags, confidence }) => [name, flags, confidence]),
+            [
+                ["Peter Gibbons", ["catch-all"], 0.6],
+                ["Bill Lumbergh", ["catch-all"], 0.6],
+            ],
+        );
+        assert.deepEqual(company?.removed[0]?.flags, ["domain-mismatch", "no-mx"]);
+    });
+});
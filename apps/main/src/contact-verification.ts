@@ -0,0 +1,396 @@
+// Types for verified contacts
+export type RawContact = {
+    name?: unknown;
+    role?: unknown;
+    email?: unknown;
+    [field: string]: unknown;
+};
+
+// Why a contact is risky or its email uncertain
+export type ContactFlag =
+    | "invalid-email"
+    | "guessed"
+    | "role-account"
+    | "free-mail"
+    | "domain-mismatch"
+    | "unknown-pattern"
+    | "no-mx"
+    | "catch-all";
+
+export type VerifiedContact = {
+    name: string;
+    role?: string;
+    email: string;
+    // 0 (certainly undeliverable or not a person) to 1 (well-formed personal address on the company domain)
+    confidence: number;
+    flags: ContactFlag[];
+    // Address pattern the email follows, e.g. first.last
+    pattern?: string;
+    // Email returned by the agent, when it was replaced by a guess
+    originalEmail?: string;
+};
+
+export type RemovedContact = {
+    name: string;
+    email?: string;
+    reason: string;
+    confidence?: number;
+    flags?: ContactFlag[];
+};
+
+export type CompanyContacts = {
+    company: string;
+    // Company domain, from the lead or the most common domain among the contacts
+    domain?: string;
+    // Most common address pattern at the company
+    pattern?: string;
+    contacts: VerifiedContact[];
+    removed: RemovedContact[];
+};
+
+// What a domain check plugin knows about a mail domain
+export type DomainCheckResult = {
+    // Whether the domain accepts mail at all
+    mx: boolean;
+    // Whether the domain accepts mail for any address, so a delivered email proves nothing
+    catchAll?: boolean;
+};
+
+export type DomainCheck = (domain: string, signal?: AbortSignal) => Promise<DomainCheckResult>;
+
+export type VerificationOptions = {
+    // Contacts below this confidence are removed
+    minConfidence: number;
+    // Online check of the email domains, e.g. an MX lookup. Without one, verification runs offline.
+    checkDomain?: DomainCheck;
+    signal?: AbortSignal;
+};
+
+const EMAIL_PATTERN =
+    /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// Local parts of shared mailboxes rather than a person
+const ROLE_ACCOUNTS = new Set([
+    "admin",
+    "billing",
+    "careers",
+    "contact",
+    "enquiries",
+    "hello",
+    "help",
+    "hi",
+    "hr",
+    "info",
+    "inquiries",
+    "jobs",
+    "marketing",
+    "media",
+    "no-reply",
+    "noreply",
+    "office",
+    "partners",
+    "postmaster",
+    "press",
+    "sales",
+    "support",
+    "team",
+    "webmaster",
+]);
+
+const FREE_MAIL_DOMAINS = new Set([
+    "aol.com",
+    "gmail.com",
+    "googlemail.com",
+    "gmx.de",
+    "gmx.net",
+    "hotmail.com",
+    "icloud.com",
+    "live.com",
+    "mail.com",
+    "outlook.com",
+    "proton.me",
+    "protonmail.com",
+    "web.de",
+    "yahoo.com",
+]);
+
+const HONORIFICS = /^(?:dr|mr|mrs|ms|mx|prof|sir)\.?\s+/i;
+// Degrees and suffixes after the name, e.g. "Jane Doe, PhD" or "John Smith Jr."
+const NAME_SUFFIXES = /(?:,.*|\s+(?:jr|sr|ii|iii|phd|mba|md)\.?)$/i;
+
+// Address patterns by name, most common first so ambiguous addresses get the likelier one
+const EMAIL_PATTERNS: Record<string, (first: string, last: string) => string> = {
+    "first.last": (first, last) => `${first}.${last}`,
+    first: (first) => first,
+    firstlast: (first, last) => `${first}${last}`,
+    flast: (first, last) => `${first[0]}${last}`,
+    "f.last": (first, last) => `${first[0]}.${last}`,
+    first_last: (first, last) => `${first}_${last}`,
+    "first-last": (first, last) => `${first}-${last}`,
+    firstl: (first, last) => `${first}${last[0]}`,
+    last: (_, last) => last,
+    "last.first": (first, last) => `${last}.${first}`,
+};
+
+// Confidence multipliers per flag
+const FLAG_WEIGHTS: Record<ContactFlag, number> = {
+    "invalid-email": 0,
+    "no-mx": 0,
+    "role-account": 0.2,
+    guessed: 0.5,
+    "domain-mismatch": 0.5,
+    "free-mail": 0.6,
+    "catch-all": 0.6,
+    "unknown-pattern": 0.8,
+};
+
+/**
+ * Clean up a contact name: surrounding whitespace, honorifics, degrees and all-caps or all-lowercase spelling
+ */
+export function normalizeName(name: string): string {
+    let normalized = name.replace(/\s+/g, " ").trim().replace(HONORIFICS, "").replace(NAME_SUFFIXES, "").trim();
+    if (normalized === normalized.toUpperCase() || normalized === normalized.toLowerCase()) {
+        normalized = normalized.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, separator, letter) => {
+            return `${separator}${letter.toUpperCase()}`;
+        });
+    }
+    return normalized;
+}
+
+/**
+ * Clean up an email address, returning undefined when it is not a valid address
+ */
+export function normalizeEmail(email: string): string | undefined {
+    const normalized = email
+        .trim()
+        .replace(/^mailto:/i, "")
+        .replace(/^<|>$/g, "")
+        .toLowerCase();
+    return EMAIL_PATTERN.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Reduce a name or domain to a bare domain, e.g. `https://www.acme.com/about` to `acme.com`
+ */
+function toDomain(value: string): string | undefined {
+    const domain = value
+        .trim()
+        .toLowerCase()
+        .replace(/^[a-z]+:\/\//, "")
+        .replace(/^www\./, "")
+        .split(/[/?#]/)[0];
+    return domain && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : undefined;
+}
+
+/**
+ * First and last name in the form they appear in addresses, e.g. `Zoë van Dijk` to `zoe` and `vandijk`
+ */
+function nameParts(name: string): { first: string; last: string } | undefined {
+    const parts = name
+        .normalize("NFD")
+        .replace(/\p{Diacritic}/gu, "")
+        .toLowerCase()
+        .split(" ")
+        .map((part) => part.replace(/[^a-z]/g, ""))
+        .filter(Boolean);
+    if (parts.length < 2) {
+        return undefined;
+    }
+    const [first, ...rest] = parts;
+    // Particles such as "van" belong to the last name
+    return { first: first!, last: rest.length > 1 && rest[0]!.length <= 3 ? rest.join("") : rest.at(-1)! };
+}
+
+/**
+ * The pattern an address follows for a name, if any
+ */
+function detectPattern(localPart: string, name: string): string | undefined {
+    const parts = nameParts(name);
+    if (!parts) {
+        return undefined;
+    }
+    return Object.entries(EMAIL_PATTERNS).find(([, build]) => build(parts.first, parts.last) === localPart)?.[0];
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+    const counts = new Map<string, number>();
+    values.forEach((value) => value && counts.set(value, (counts.get(value) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function confidenceOf(flags: ContactFlag[]): number {
+    return Math.round(flags.reduce((confidence, flag) => confidence * FLAG_WEIGHTS[flag], 1) * 100) / 100;
+}
+
+function text(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Verify the contacts of one company: normalize names and emails, merge duplicates, guess broken
+ * addresses from the company's address pattern and score how likely every address reaches the person
+ */
+async function verifyCompanyContacts(
+    company: string,
+    companyDomain: string | undefined,
+    rawContacts: RawContact[],
+    options: VerificationOptions,
+): Promise<CompanyContacts> {
+    const removed: RemovedContact[] = [];
+    const contacts = rawContacts.flatMap((raw) => {
+        const name = text(raw.name) && normalizeName(text(raw.name)!);
+        if (!name) {
+            removed.push({ name: "", email: text(raw.email), reason: "no name" });
+            return [];
+        }
+        const original = text(raw.email);
+        return [{ name, role: text(raw.role), original, email: original && normalizeEmail(original) }];
+    });
+
+    const domainOf = (email: string) => email.split("@")[1]!;
+    const domain =
+        companyDomain ??
+        mostCommon(
+            contacts
+                .map((contact) => contact.email && domainOf(contact.email))
+                .filter((emailDomain) => emailDomain && !FREE_MAIL_DOMAINS.has(emailDomain)),
+        );
+    const pattern = mostCommon(
+        contacts
+            .filter((contact) => contact.email && domainOf(contact.email) === domain)
+            .map((contact) => detectPattern(contact.email!.split("@")[0]!, contact.name)),
+    );
+
+    const domainChecks = new Map<string, Promise<DomainCheckResult | undefined>>();
+    const checkDomain = (emailDomain: string) => {
+        let check = domainChecks.get(emailDomain);
+        if (!check && options.checkDomain) {
+            check = options.checkDomain(emailDomain, options.signal).catch((error) => {
+                if (options.signal?.aborted) {
+                    throw error;
+                }
+                // A failing check says nothing about the address, it is scored as if offline
+                return undefined;
+            });
+            domainChecks.set(emailDomain, check);
+        }
+        return check;
+    };
+
+    const verified: VerifiedContact[] = [];
+    for (const contact of contacts) {
+        const flags: ContactFlag[] = [];
+        let email = contact.email;
+
+        if (!email) {
+            // Build the address from the company's pattern, or the most common one when it is unknown
+            const parts = nameParts(contact.name);
+            if (!domain || !parts) {
+                removed.push({
+                    name: contact.name,
+                    email: contact.original,
+                    reason: "invalid email that could not be guessed",
+                    confidence: 0,
+                    flags: ["invalid-email"],
+                });
+                continue;
+            }
+            email = `${EMAIL_PATTERNS[pattern ?? "first.last"]!(parts.first, parts.last)}@${domain}`;
+            flags.push("guessed");
+            if (!pattern) {
+                flags.push("unknown-pattern");
+            }
+        }
+
+        const [localPart, emailDomain] = email.split("@") as [string, string];
+        const contactPattern = detectPattern(localPart, contact.name);
+        if (ROLE_ACCOUNTS.has(localPart.split(/[.+]/)[0]!)) {
+            flags.push("role-account");
+        } else if (FREE_MAIL_DOMAINS.has(emailDomain)) {
+            flags.push("free-mail");
+        } else if (domain && emailDomain !== domain) {
+            flags.push("domain-mismatch");
+        } else if (!contactPattern && !flags.includes("guessed")) {
+            flags.push("unknown-pattern");
+        }
+
+        const domainCheck = await checkDomain(emailDomain);
+        if (domainCheck && !domainCheck.mx) {
+            flags.push("no-mx");
+        } else if (domainCheck?.catchAll) {
+            flags.push("catch-all");
+        }
+
+        verified.push({
+            name: contact.name,
+            role: contact.role,
+            email,
+            confidence: confidenceOf(flags),
+            flags,
+            pattern: contactPattern,
+            originalEmail: email !== contact.original ? contact.original : undefined,
+        });
+    }
+
+    // The same person listed twice, by name or by address, keeps the entry with the better address
+    const kept: VerifiedContact[] = [];
+    for (const contact of [...verified].sort((a, b) => b.confidence - a.confidence)) {
+        const duplicate = kept.find(
+            (other) => other.email === contact.email || other.name.toLowerCase() === contact.name.toLowerCase(),
+        );
+        if (duplicate) {
+            duplicate.role ??= contact.role;
+            removed.push({ name: contact.name, email: contact.email, reason: `duplicate of ${duplicate.name}` });
+            continue;
+        }
+        kept.push(contact);
+    }
+
+    return {
+        company,
+        domain,
+        pattern,
+        contacts: kept.filter((contact) => {
+            if (contact.confidence >= options.minConfidence) {
+                return true;
+            }
+            removed.push({
+                name: contact.name,
+                email: contact.email,
+                reason: `confidence ${contact.confidence} below ${options.minConfidence}`,
+                confidence: contact.confidence,
+                flags: contact.flags,
+            });
+            return false;
+        }),
+        removed,
+    };
+}
+
+/**
+ * Verify the contacts of several companies. On top of the checks per company, an address listed
+ * for more than one company is only kept for the first one.
+ */
+export async function verifyContacts(
+    companies: { company: string; domain?: string; contacts: RawContact[] }[],
+    options: VerificationOptions,
+): Promise<CompanyContacts[]> {
+    const results: CompanyContacts[] = [];
+    // Email -> company that listed it first
+    const owners = new Map<string, string>();
+
+    for (const { company, domain, contacts } of companies) {
+        const result = await verifyCompanyContacts(company, domain && toDomain(domain), contacts, options);
+        result.contacts = result.contacts.filter((contact) => {
+            const owner = owners.get(contact.email);
+            if (owner !== undefined && owner !== company) {
+                result.removed.push({ name: contact.name, email: contact.email, reason: `also listed for ${owner}` });
+                return false;
+            }
+            owners.set(contact.email, company);
+            return true;
+        });
+        results.push(result);
+    }
+    return results;
+}
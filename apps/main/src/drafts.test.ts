@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { DraftEmail, pushDrafts, readDraftLedger } from "./drafts.js";
+
+function email(contact: string, address: string): DraftEmail {
+    return { company: "Acme", contact, email: address, variant: "A", subject: `Hi ${contact}`, body: "Hello" };
+}
+
+// The same person listed twice, under a differently cased address
+const EMAILS = [
+    email("Alex", "alex@acme.example"),
+    email("Sam", "sam@acme.example"),
+    email("A. Ex", "Alex@Acme.example"),
+];
+
+describe("pushDrafts", () => {
+    let dir: string;
+
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), "drafts-"));
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it("plans the same drafts in a dry run as a push creates", async () => {
+        const ledgerFile = join(dir, "dry-run.json");
+
+        const plan = await pushDrafts(EMAILS, ledgerFile, {});
+        let drafts = 0;
+        const push = await pushDrafts(EMAILS, ledgerFile, { createDraft: async () => ({ draftId: `d-${++drafts}` }) });
+
+        assert.deepEqual(
+            plan.map((entry) => entry.status),
+            ["planned", "planned", "skipped"],
+        );
+        assert.deepEqual(
+            push.map((entry) => entry.status),
+            ["created", "created", "skipped"],
+        );
+        assert.equal(drafts, 2);
+    });
+
+    it("skips contacts drafted by an earlier push and records new ones", async () => {
+        const ledgerFile = join(dir, "ledger.json");
+        await pushDrafts(EMAILS.slice(0, 1), ledgerFile, { createDraft: async () => ({ draftId: "first" }) });
+
+        const report = await pushDrafts(EMAILS, ledgerFile, {
+            createDraft: async ({ contact }) => {
+                if (contact === "Sam") {
+                    throw new Error("Gmail is down");
+                }
+                return { draftId: "second" };
+            },
+        });
+
+        assert.deepEqual(
+            report.map(({ status, draftId, error }) => ({ status, draftId, error })),
+            [
+                { status: "skipped", draftId: "first", error: "already drafted" },
+                { status: "failed", draftId: undefined, error: "Gmail is down" },
+                { status: "skipped", draftId: "first", error: "already drafted" },
+            ],
+        );
+        assert.deepEqual(Object.keys(readDraftLedger(ledgerFile).drafts), ["alex@acme.example"]);
+    });
+});
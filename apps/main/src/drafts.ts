@@ -0,0 +1,163 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { z } from "zod";
+
+import { OutreachEmail, parseOutreachEmails } from "./outreach-email.js";
+import { writeJsonAtomic } from "./run-store.js";
+import { RateLimiter } from "./throttle.js";
+
+// Types for pushing outreach emails to Gmail drafts
+export type DraftEmail = {
+    company: string;
+    contact: string;
+    email: string;
+    variant: string;
+    subject: string;
+    body: string;
+};
+
+export type LedgerEntry = {
+    company: string;
+    contact: string;
+    variant: string;
+    subject: string;
+    draftId?: string;
+    draftedAt: string;
+};
+
+// Contacts drafted so far, by lowercased email address
+export type DraftLedger = {
+    drafts: Record<string, LedgerEntry>;
+};
+
+export type DraftReportEntry = {
+    company: string;
+    contact: string;
+    email: string;
+    variant?: string;
+    // "planned" in a dry run, "skipped" when the contact was drafted before or has no usable email
+    status: "created" | "failed" | "skipped" | "planned";
+    draftId?: string;
+    // Why the draft failed or was skipped
+    error?: string;
+};
+
+// Creates one draft, resolving to its ID when the integration returns one
+export type CreateDraft = (email: DraftEmail) => Promise<{ draftId?: string }>;
+
+const outreachEmailsSchema = z.array(
+    z.looseObject({
+        company: z.string(),
+        contact: z.string(),
+        email: z.string().optional(),
+        variants: z.array(z.unknown()).optional(),
+        // Free text written by pipelines before emails were structured
+        content: z.string().optional(),
+    }),
+);
+
+/**
+ * Read the outreach emails of a results file, one entry per contact with all of its variants
+ */
+export function loadOutreachEmails(filePath: string): {
+    company: string;
+    contact: string;
+    email?: string;
+    variants: OutreachEmail[];
+    error?: string;
+}[] {
+    const results = JSON.parse(readFileSync(filePath, "utf-8")) as Record<string, unknown>;
+    const parsed = outreachEmailsSchema.safeParse(results.outreachEmails);
+    if (!parsed.success) {
+        throw new Error(`${filePath} has no outreachEmails list`);
+    }
+
+    return parsed.data.map((entry) => {
+        try {
+            return { ...entry, variants: parseOutreachEmails(entry.variants ?? entry.content) };
+        } catch (error) {
+            return { ...entry, variants: [], error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+}
+
+export function readDraftLedger(filePath: string): DraftLedger {
+    if (!existsSync(filePath)) {
+        return { drafts: {} };
+    }
+    return JSON.parse(readFileSync(filePath, "utf-8")) as DraftLedger;
+}
+
+export function writeDraftLedger(filePath: string, ledger: DraftLedger): void {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeJsonAtomic(filePath, ledger);
+}
+
+/**
+ * Create a draft for every email whose contact is not in the ledger yet, at most `requestsPerSecond`
+ * per second. The ledger file is written after every draft, so an interrupted push never drafts a
+ * contact twice. Without `createDraft`, nothing is created and every pending email is reported as planned.
+ */
+export async function pushDrafts(
+    emails: DraftEmail[],
+    ledgerFile: string,
+    options: {
+        createDraft?: CreateDraft;
+        requestsPerSecond?: number;
+        signal?: AbortSignal;
+        onDrafted?: (entry: DraftReportEntry, email: DraftEmail) => void;
+    },
+): Promise<DraftReportEntry[]> {
+    const { createDraft, signal, onDrafted } = options;
+    const limiter = new RateLimiter(options.requestsPerSecond ?? 0);
+    const ledger = readDraftLedger(ledgerFile);
+    const report: DraftReportEntry[] = [];
+    // Addresses a dry run plans a draft for, later emails to them are skipped like in a real push
+    const planned = new Set<string>();
+
+    for (const email of emails) {
+        if (signal?.aborted) {
+            break;
+        }
+        const key = email.email.toLowerCase();
+        const base = { company: email.company, contact: email.contact, email: email.email, variant: email.variant };
+        let entry: DraftReportEntry;
+
+        const drafted = ledger.drafts[key];
+        if (drafted) {
+            entry = { ...base, status: "skipped", draftId: drafted.draftId, error: "already drafted" };
+        } else if (!createDraft) {
+            entry = planned.has(key)
+                ? { ...base, status: "skipped", error: "already drafted" }
+                : { ...base, status: "planned" };
+            planned.add(key);
+        } else {
+            try {
+                await limiter.acquire(signal);
+            } catch {
+                // Aborted while waiting, the emails left are reported as not drafted by the caller
+                break;
+            }
+            try {
+                const { draftId } = await createDraft(email);
+                ledger.drafts[key] = {
+                    company: email.company,
+                    contact: email.contact,
+                    variant: email.variant,
+                    subject: email.subject,
+                    draftId,
+                    draftedAt: new Date().toISOString(),
+                };
+                writeDraftLedger(ledgerFile, ledger);
+                entry = { ...base, status: "created", draftId };
+            } catch (error) {
+                entry = { ...base, status: "failed", error: error instanceof Error ? error.message : String(error) };
+            }
+        }
+
+        report.push(entry);
+        onDrafted?.(entry, email);
+    }
+
+    return report;
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/;
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse a duration such as `90s`, `15m`, `1.5h`, `7d` or a plain number of milliseconds
+ */
+export function parseDuration(value: string | number): number {
+    if (typeof value === "number") {
+        return value;
+    }
+    const match = value.trim().match(DURATION_PATTERN);
+    if (!match) {
+        throw new Error(`Invalid duration "${value}", expected e.g. 500ms, 90s, 15m, 1h or 7d`);
+    }
+    return Math.round(Number(match[1]) * UNIT_MS[match[2] ?? "ms"]!);
+}
+
+// Duration in a config file or environment variable, parsed to milliseconds
+export const durationSchema = z.union([z.string(), z.number().min(0)]).transform((value, ctx) => {
+    try {
+        return parseDuration(value);
+    } catch (error) {
+        ctx.addIssue({ code: "custom", message: error instanceof Error ? error.message : String(error) });
+        return z.NEVER;
+    }
+});
+
+/**
+ * Format a duration as e.g. `1h 02m`, `3m 05s` or `12s`
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+        return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+    }
+    if (minutes > 0) {
+        return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+    }
+    return `${seconds}s`;
+}
@@ -0,0 +1,40 @@
+import { resolveMx } from "dns/promises";
+import { pathToFileURL } from "url";
+
+import { resolveFromInvocationDir } from "./cli.js";
+import { DomainCheck } from "./contact-verification.js";
+
+// DNS answers meaning the domain does not exist or has no mail servers
+const NO_MAIL_CODES = new Set(["ENOTFOUND", "ENODATA", "NXDOMAIN"]);
+
+/**
+ * Check that a domain has MX records. Catch-all domains cannot be told apart by DNS alone.
+ */
+export const dnsDomainCheck: DomainCheck = async (domain) => {
+    try {
+        const records = await resolveMx(domain);
+        return { mx: records.length > 0 };
+    } catch (error) {
+        if (NO_MAIL_CODES.has((error as NodeJS.ErrnoException).code ?? "")) {
+            return { mx: false };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Load a domain check plugin: `dns` for the built-in MX lookup, or the path of a module
+ * exporting a `checkDomain` function (or a default export) with the DomainCheck signature
+ */
+export async function loadDomainCheck(plugin: string): Promise<DomainCheck> {
+    if (plugin === "dns") {
+        return dnsDomainCheck;
+    }
+
+    const module = (await import(pathToFileURL(resolveFromInvocationDir(plugin)).href)) as Record<string, unknown>;
+    const checkDomain = module.checkDomain ?? module.default;
+    if (typeof checkDomain !== "function") {
+        throw new Error(`Domain check plugin ${plugin} does not export a checkDomain function`);
+    }
+    return checkDomain as DomainCheck;
+}
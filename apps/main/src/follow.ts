@@ -0,0 +1,119 @@
+import { AgDevClient, AgentRunEvent } from "./ag-dev.js";
+import { PipelineEvent } from "./pipeline.js";
+import { sleep } from "./throttle.js";
+
+type FollowedRun = {
+    stage: string;
+    agentId: string;
+    runId: string;
+    label: string;
+    seen: Set<string>;
+    finished: boolean;
+};
+
+const POLL_INTERVAL = 1000;
+const MAX_SUMMARY_LENGTH = 160;
+
+/**
+ * Summarize the data of a run event on one line
+ */
+function summarizeEvent(event: AgentRunEvent): string {
+    const data = event.data ?? {};
+    const text = ["message", "tool", "step", "error"]
+        .map((field) => data[field])
+        .find((value) => typeof value === "string");
+    const summary = text ?? (Object.keys(data).length > 0 ? JSON.stringify(data) : "");
+    return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary;
+}
+
+/**
+ * Tails the event stream (planning steps, tool calls, ...) of every run of one lead,
+ * or of one fan-out item of it such as `Acme/Alex Example`, as the pipeline starts them.
+ */
+export class EventFollower {
+    private client: AgDevClient;
+    private target: string;
+    private log: (message: string) => void;
+    private runs = new Map<string, FollowedRun>();
+    private polls: Promise<void>[] = [];
+
+    constructor(client: AgDevClient, target: string, log: (message: string) => void = console.log) {
+        this.client = client;
+        this.target = target.toLowerCase();
+        this.log = log;
+    }
+
+    /**
+     * Whether a lead or item is the one being followed
+     */
+    matches(company: string, key = company): boolean {
+        return company.toLowerCase() === this.target || key.toLowerCase() === this.target;
+    }
+
+    /**
+     * Whether the lead or one of its items is followed
+     */
+    matchesLead(company: string): boolean {
+        const name = company.toLowerCase();
+        return this.target === name || this.target.startsWith(`${name}/`);
+    }
+
+    handle(event: PipelineEvent): void {
+        if (event.type !== "item-updated" || !event.runId || !this.matches(event.company, event.key)) {
+            return;
+        }
+
+        const followed = this.runs.get(event.runId);
+        if (followed) {
+            followed.finished = event.status === "done" || event.status === "error";
+            return;
+        }
+
+        const run: FollowedRun = {
+            stage: event.stage,
+            agentId: event.agentId,
+            runId: event.runId,
+            label: event.item ? `${event.company} / ${event.item}` : event.company,
+            seen: new Set(),
+            finished: event.status === "done" || event.status === "error",
+        };
+        this.runs.set(run.runId, run);
+        this.polls.push(this.poll(run));
+    }
+
+    /**
+     * Wait until the events of every followed run have been printed
+     */
+    async stop(): Promise<void> {
+        this.runs.forEach((run) => (run.finished = true));
+        await Promise.all(this.polls);
+    }
+
+    private async poll(run: FollowedRun): Promise<void> {
+        this.log(`[${run.stage}] ${run.label}: following run ${run.runId}`);
+
+        // One more fetch after the run finished picks up its last events
+        for (let last = false; !last; ) {
+            last = run.finished;
+            try {
+                const { items } = await this.client.getAgentRunEvents(run.agentId, run.runId);
+                items
+                    .filter((event) => !run.seen.has(event.id))
+                    .forEach((event) => {
+                        run.seen.add(event.id);
+                        const time = new Date(event.timestamp).toLocaleTimeString();
+                        this.log(
+                            `${time} [${run.stage}] ${run.label}: ${event.type} ${summarizeEvent(event)}`.trimEnd(),
+                        );
+                    });
+            } catch (error) {
+                this.log(
+                    `[${run.stage}] ${run.label}: could not fetch events: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+            if (!last) {
+                await sleep(POLL_INTERVAL);
+            }
+        }
+    }
+}
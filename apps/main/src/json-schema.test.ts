@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { formatIssues, jsonSchemaToZod } from "./json-schema.js";
+
+/**
+ * The issues of a value that fails the schema, or undefined when it passes
+ */
+function issues(schema: Record<string, unknown>, value: unknown): string | undefined {
+    const result = jsonSchemaToZod(schema).safeParse(value);
+    return result.success ? undefined : formatIssues(result.error);
+}
+
+const CONTACTS_SCHEMA = {
+    type: "object",
+    required: ["contacts"],
+    properties: {
+        contacts: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                required: ["name", "email"],
+                properties: {
+                    name: { type: "string", minLength: 1 },
+                    email: { type: "string", format: "email" },
+                    confidence: { type: "number", minimum: 0, maximum: 1 },
+                },
+            },
+        },
+    },
+};
+
+describe("jsonSchemaToZod", () => {
+    it("checks objects, arrays, required properties and formats", () => {
+        assert.equal(issues(CONTACTS_SCHEMA, { contacts: [{ name: "Jane", email: "jane@acme.example" }] }), undefined);
+        assert.equal(
+            issues(CONTACTS_SCHEMA, { contacts: [{ name: "Jane", email: "not an email", confidence: 2 }] }),
+            "contacts.0.email: Invalid email address; contacts.0.confidence: Too big: expected number to be <=1",
+        );
+        assert.match(issues(CONTACTS_SCHEMA, { contacts: [] }) ?? "", /^contacts: Too small/);
+        assert.match(issues(CONTACTS_SCHEMA, {}) ?? "", /^contacts: /);
+    });
+
+    it("keeps unknown properties unless additionalProperties is false", () => {
+        const schema = { type: "object", properties: { name: { type: "string" } } };
+
+        assert.deepEqual(jsonSchemaToZod(schema).parse({ name: "Jane", extra: 1 }), { name: "Jane", extra: 1 });
+        assert.notEqual(issues({ ...schema, additionalProperties: false }, { name: "Jane", extra: 1 }), undefined);
+    });
+
+    it("requires properties listed as required even without a schema", () => {
+        assert.match(issues({ type: "object", required: ["id"] }, {}) ?? "", /^id: Required/);
+        assert.equal(issues({ type: "object", required: ["id"] }, { id: null }), undefined);
+    });
+
+    it("supports enum, const, type arrays and alternatives", () => {
+        assert.equal(issues({ enum: ["low", "high"] }, "high"), undefined);
+        assert.notEqual(issues({ enum: ["low", "high"] }, "medium"), undefined);
+        assert.notEqual(issues({ const: 1 }, 2), undefined);
+        assert.equal(issues({ type: ["string", "null"] }, null), undefined);
+        assert.notEqual(issues({ type: "integer" }, 1.5), undefined);
+        assert.equal(issues({ anyOf: [{ type: "string" }, { type: "number" }] }, 3), undefined);
+    });
+
+    it("checks oneOf like anyOf, so a value matching several alternatives passes", () => {
+        assert.equal(issues({ oneOf: [{ type: "number" }, { type: "integer" }] }, 3), undefined);
+    });
+
+    it("enforces the uri and date-time formats and ignores unknown keywords", () => {
+        assert.notEqual(issues({ type: "string", format: "uri" }, "acme"), undefined);
+        assert.equal(issues({ type: "string", format: "date-time" }, "2025-01-31T10:00:00+01:00"), undefined);
+        assert.notEqual(issues({ type: "string", format: "date-time" }, "2025-01-31"), undefined);
+        assert.equal(issues({ type: "string", contentEncoding: "base64" }, "not base64!"), undefined);
+        assert.equal(issues({}, { anything: true }), undefined);
+    });
+});
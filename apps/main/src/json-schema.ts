@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+type SchemaNode = Record<string, unknown>;
+
+/**
+ * Build a zod schema for a single JSON Schema type
+ */
+function typeToZod(type: string, schema: SchemaNode): z.ZodType {
+    switch (type) {
+        case "string": {
+            if (schema.format === "email") {
+                return z.email();
+            }
+            if (schema.format === "uri" || schema.format === "url") {
+                return z.url();
+            }
+            if (schema.format === "date-time") {
+                return z.iso.datetime({ offset: true });
+            }
+            let result = z.string();
+            if (typeof schema.minLength === "number") {
+                result = result.min(schema.minLength);
+            }
+            if (typeof schema.maxLength === "number") {
+                result = result.max(schema.maxLength);
+            }
+            if (typeof schema.pattern === "string") {
+                result = result.regex(new RegExp(schema.pattern));
+            }
+            return result;
+        }
+        case "number":
+        case "integer": {
+            let result = type === "integer" ? z.number().int() : z.number();
+            if (typeof schema.minimum === "number") {
+                result = result.min(schema.minimum);
+            }
+            if (typeof schema.maximum === "number") {
+                result = result.max(schema.maximum);
+            }
+            return result;
+        }
+        case "boolean":
+            return z.boolean();
+        case "null":
+            return z.null();
+        case "array": {
+            let result = z.array(schema.items ? jsonSchemaToZod(schema.items as SchemaNode) : z.unknown());
+            if (typeof schema.minItems === "number") {
+                result = result.min(schema.minItems);
+            }
+            if (typeof schema.maxItems === "number") {
+                result = result.max(schema.maxItems);
+            }
+            return result;
+        }
+        case "object": {
+            const properties = (schema.properties ?? {}) as Record<string, SchemaNode>;
+            const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+            const shape = Object.fromEntries(
+                Object.entries(properties).map(([name, property]) => {
+                    const propertySchema = jsonSchemaToZod(property);
+                    return [name, required.has(name) ? propertySchema : propertySchema.optional()];
+                }),
+            );
+            // Required properties without a schema of their own still have to be present
+            required.forEach((name) => {
+                if (!(name in shape)) {
+                    shape[name] = z.unknown().refine((value) => value !== undefined, "Required");
+                }
+            });
+            return schema.additionalProperties === false ? z.strictObject(shape) : z.looseObject(shape);
+        }
+        default:
+            return z.unknown();
+    }
+}
+
+/**
+ * Build a zod schema from the JSON Schema subset agents describe their input and results with:
+ * types (including type arrays), properties, required, additionalProperties, items, enum, const,
+ * anyOf/oneOf, length and range limits and the email, uri and date-time formats.
+ * Two deviations from JSON Schema: those formats are enforced rather than treated as annotations,
+ * and oneOf is checked like anyOf, so a value matching several alternatives passes. Other keywords
+ * are ignored.
+ */
+export function jsonSchemaToZod(schema: SchemaNode): z.ZodType {
+    if (schema.const !== undefined) {
+        return z.literal(schema.const as z.core.util.Literal);
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        return z.literal(schema.enum as z.core.util.Literal[]);
+    }
+
+    // oneOf is only checked as anyOf, exclusivity is not enforced
+    const alternatives = (schema.anyOf ?? schema.oneOf) as SchemaNode[] | undefined;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+        const options = alternatives.map((alternative) => jsonSchemaToZod(alternative));
+        return options.length === 1 ? options[0]! : z.union(options);
+    }
+
+    if (Array.isArray(schema.type)) {
+        const options = (schema.type as string[]).map((type) => typeToZod(type, schema));
+        return options.length === 1 ? options[0]! : z.union(options);
+    }
+    if (typeof schema.type === "string") {
+        return typeToZod(schema.type, schema);
+    }
+    return z.unknown();
+}
+
+/**
+ * Summarize validation issues on a single line, e.g. `contacts.0.email: Invalid email address`
+ */
+export function formatIssues(error: z.ZodError): string {
+    return error.issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+        .join("; ");
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+
+import { LeadDatabase } from "./lead-database.js";
+
+const T1 = "2025-01-01T00:00:00.000Z";
+const T2 = "2025-02-01T00:00:00.000Z";
+const T3 = "2025-03-01T00:00:00.000Z";
+
+describe("LeadDatabase", () => {
+    let dir: string;
+    let filePath: string;
+    let database: LeadDatabase;
+
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), "lead-database-"));
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    beforeEach((context) => {
+        filePath = join(dir, `${context.name.replace(/\W+/g, "-")}`, "leads.sqlite");
+        database = LeadDatabase.open(filePath);
+    });
+
+    afterEach(() => database.close());
+
+    it("counts only companies it did not know before", () => {
+        assert.equal(database.recordLeads([{ company: "Acme" }, { company: "Globex" }], T1), 2);
+        assert.equal(
+            database.recordLeads([{ company: "Acme", domain: "acme.example" }, { company: "Initech" }], T2),
+            1,
+        );
+    });
+
+    it("replaces the result of a stage and returns it only for the same input while fresh", () => {
+        database.recordLeads([{ company: "Acme" }], T1);
+        const item = { company: "Acme", input: { company: "Acme" } };
+
+        database.recordResult("company-profile", item, { content: "first" }, T1);
+        database.recordResult("company-profile", item, { content: "second" }, T2);
+
+        assert.deepEqual(database.previousResult("company-profile", item, new Date(T2)), { content: "second" });
+        assert.equal(database.previousResult("company-profile", item, new Date(T3)), undefined);
+        assert.equal(
+            database.previousResult("company-profile", { ...item, input: { company: "Acme Corp" } }, new Date(T1)),
+            undefined,
+        );
+        assert.equal(database.previousResult("company-contacts", item, new Date(T1)), undefined);
+    });
+
+    it("ignores results of companies that were never recorded", () => {
+        const item = { company: "Unknown", input: {} };
+        database.recordResult("company-profile", item, { content: "lost" }, T1);
+
+        assert.equal(database.previousResult("company-profile", item, new Date(T1)), undefined);
+    });
+
+    it("marks contacts no longer listed as removed and restores them when listed again", () => {
+        database.recordLeads([{ company: "Acme" }], T1);
+        const alex = { company: "Acme", item: "Alex", input: { contact: "Alex" } };
+
+        assert.deepEqual(database.recordContacts("Acme", ["Alex", "Sam"], T1), { added: ["Alex", "Sam"], removed: [] });
+        database.recordResult("contact-profile", alex, { content: "Alex's profile" }, T1);
+
+        assert.deepEqual(database.recordContacts("Acme", ["Sam", "Kim"], T2), { added: ["Kim"], removed: ["Alex"] });
+        assert.equal(database.previousResult("contact-profile", alex, new Date(T1)), undefined);
+
+        assert.deepEqual(database.recordContacts("Acme", ["Alex", "Sam", "Kim"], T3), { added: [], removed: [] });
+        assert.deepEqual(database.previousResult("contact-profile", alex, new Date(T1)), { content: "Alex's profile" });
+    });
+
+    it("keeps the writes of two connections to the same file", () => {
+        const other = LeadDatabase.open(filePath);
+        try {
+            database.recordLeads([{ company: "Acme" }], T1);
+            other.recordLeads([{ company: "Globex" }], T1);
+            other.recordResult(
+                "company-profile",
+                { company: "Acme", input: {} },
+                { content: "from the other run" },
+                T2,
+            );
+        } finally {
+            other.close();
+        }
+
+        assert.equal(database.recordLeads([{ company: "Acme" }, { company: "Globex" }], T3), 0);
+        assert.deepEqual(database.previousResult("company-profile", { company: "Acme", input: {} }, new Date(T2)), {
+            content: "from the other run",
+        });
+    });
+});
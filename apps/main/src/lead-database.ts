@@ -0,0 +1,308 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+import { Lead } from "./leads.js";
+import { PipelineDefinition, forEachSource, getPath, renderTemplate } from "./pipeline-definition.js";
+import { PipelineEvent } from "./pipeline.js";
+import { RunStore } from "./run-store.js";
+import { hashJson } from "./stable-json.js";
+
+// What a run changed in the database, for the run summary
+export type LeadDatabaseChanges = {
+    newCompanies: number;
+    newContacts: number;
+    removedContacts: { company: string; contact: string }[];
+};
+
+type StageRow = {
+    // Hash of the stage input, a result only stays valid for the same input
+    input_hash: string;
+    result_data: string;
+    ran_at: string;
+};
+
+type ContactRow = {
+    name: string;
+    first_seen_at: string;
+    // Set when a later run of the contacts stage no longer listed the contact
+    removed_at: string | null;
+};
+
+// Stage results of a company itself are stored with this item, those of its contacts with the contact's key
+const COMPANY_ITEM = "";
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS companies (
+        name TEXT PRIMARY KEY,
+        lead TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS contacts (
+        company TEXT NOT NULL REFERENCES companies (name),
+        name TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        removed_at TEXT,
+        PRIMARY KEY (company, name)
+    );
+    CREATE TABLE IF NOT EXISTS stage_results (
+        company TEXT NOT NULL REFERENCES companies (name),
+        item TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        input_hash TEXT NOT NULL,
+        result_data TEXT NOT NULL,
+        ran_at TEXT NOT NULL,
+        PRIMARY KEY (company, item, stage)
+    );
+`;
+
+/**
+ * Every company and contact the pipeline has processed, with the latest result of every stage
+ * for it and when that ran. Kept in a SQLite database that every change is written to right away,
+ * row by row, so concurrent runs update it side by side.
+ */
+export class LeadDatabase {
+    readonly filePath: string;
+    private db: Database.Database;
+
+    private constructor(filePath: string, db: Database.Database) {
+        this.filePath = filePath;
+        this.db = db;
+    }
+
+    /**
+     * Open the database file, creating it if it does not exist yet
+     */
+    static open(filePath: string): LeadDatabase {
+        mkdirSync(dirname(filePath), { recursive: true });
+        const db = new Database(filePath);
+        // Concurrent runs wait for each other's writes instead of failing
+        db.pragma("journal_mode = WAL");
+        db.pragma("busy_timeout = 5000");
+        db.exec(SCHEMA);
+        return new LeadDatabase(filePath, db);
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    /**
+     * Add the companies of a run, resolving to the number that were not known before
+     */
+    recordLeads(leads: Lead[], seenAt = new Date().toISOString()): number {
+        const exists = this.db.prepare("SELECT 1 FROM companies WHERE name = ?").pluck();
+        const upsert = this.db.prepare(
+            `INSERT INTO companies (name, lead, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT (name) DO UPDATE SET lead = excluded.lead, last_seen_at = excluded.last_seen_at`,
+        );
+        return this.db.transaction(() => {
+            let added = 0;
+            for (const lead of leads) {
+                if (!exists.get(lead.company)) {
+                    added++;
+                }
+                upsert.run(lead.company, JSON.stringify(lead), seenAt, seenAt);
+            }
+            return added;
+        })();
+    }
+
+    /**
+     * The result recorded for a company or contact, if it was for the same input and ran at or after `freshSince`
+     */
+    previousResult(
+        stage: string,
+        item: { company: string; item?: string; input: Record<string, unknown> },
+        freshSince: Date,
+    ): Record<string, unknown> | undefined {
+        if (item.item !== undefined) {
+            const contact = this.db
+                .prepare("SELECT removed_at FROM contacts WHERE company = ? AND name = ?")
+                .get(item.company, item.item) as Pick<ContactRow, "removed_at"> | undefined;
+            if (!contact || contact.removed_at) {
+                return undefined;
+            }
+        }
+        const record = this.db
+            .prepare(
+                "SELECT input_hash, result_data, ran_at FROM stage_results WHERE company = ? AND item = ? AND stage = ?",
+            )
+            .get(item.company, item.item ?? COMPANY_ITEM, stage) as StageRow | undefined;
+        if (!record) {
+            return undefined;
+        }
+        const fresh = Date.parse(record.ran_at) >= freshSince.getTime();
+        return fresh && record.input_hash === hashJson(item.input)
+            ? (JSON.parse(record.result_data) as Record<string, unknown>)
+            : undefined;
+    }
+
+    /**
+     * Record the result of a stage for a company, or for one of its contacts
+     */
+    recordResult(
+        stage: string,
+        item: { company: string; item?: string; input: Record<string, unknown> },
+        resultData: Record<string, unknown>,
+        ranAt: string,
+    ): void {
+        this.db.transaction(() => {
+            if (!this.db.prepare("SELECT 1 FROM companies WHERE name = ?").get(item.company)) {
+                return;
+            }
+            if (item.item !== undefined) {
+                this.db
+                    .prepare(
+                        `INSERT INTO contacts (company, name, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?)
+                         ON CONFLICT (company, name) DO NOTHING`,
+                    )
+                    .run(item.company, item.item, ranAt, ranAt);
+            }
+            this.db
+                .prepare(
+                    `INSERT INTO stage_results (company, item, stage, input_hash, result_data, ran_at)
+                     VALUES (?, ?, ?, ?, ?, ?)
+                     ON CONFLICT (company, item, stage) DO UPDATE SET
+                         input_hash = excluded.input_hash, result_data = excluded.result_data, ran_at = excluded.ran_at`,
+                )
+                .run(
+                    item.company,
+                    item.item ?? COMPANY_ITEM,
+                    stage,
+                    hashJson(item.input),
+                    JSON.stringify(resultData),
+                    ranAt,
+                );
+        })();
+    }
+
+    /**
+     * Record the complete list of a company's current contacts. Contacts no longer listed are marked
+     * as removed, contacts listed again lose the mark. Resolves to the new and the removed contacts.
+     */
+    recordContacts(
+        companyName: string,
+        contacts: string[],
+        seenAt = new Date().toISOString(),
+    ): { added: string[]; removed: string[] } {
+        return this.db.transaction(() => {
+            if (!this.db.prepare("SELECT 1 FROM companies WHERE name = ?").get(companyName)) {
+                return { added: [], removed: [] };
+            }
+            const known = new Map(
+                (
+                    this.db
+                        .prepare("SELECT name, first_seen_at, removed_at FROM contacts WHERE company = ?")
+                        .all(companyName) as ContactRow[]
+                ).map((row) => [row.name, row]),
+            );
+
+            const current = new Set(contacts);
+            const added: string[] = [];
+            const upsert = this.db.prepare(
+                `INSERT INTO contacts (company, name, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?)
+                 ON CONFLICT (company, name) DO UPDATE SET last_seen_at = excluded.last_seen_at, removed_at = NULL`,
+            );
+            for (const name of current) {
+                const row = known.get(name);
+                // Contacts whose results were recorded during this run are new as well
+                if (!row || row.first_seen_at >= seenAt) {
+                    added.push(name);
+                }
+                upsert.run(companyName, name, seenAt, seenAt);
+            }
+
+            const removed: string[] = [];
+            const remove = this.db.prepare("UPDATE contacts SET removed_at = ? WHERE company = ? AND name = ?");
+            for (const row of known.values()) {
+                if (!current.has(row.name) && !row.removed_at) {
+                    remove.run(seenAt, companyName, row.name);
+                    removed.push(row.name);
+                }
+            }
+            return { added, removed };
+        })();
+    }
+}
+
+/**
+ * Records the results of a pipeline run in the lead database as the run's events come in
+ */
+export class LeadDatabaseRecorder {
+    private database: LeadDatabase;
+    private pipeline: PipelineDefinition;
+    private store: RunStore;
+    private startedAt = new Date().toISOString();
+    private newCompanies: number;
+
+    constructor(database: LeadDatabase, pipeline: PipelineDefinition, store: RunStore) {
+        this.database = database;
+        this.pipeline = pipeline;
+        this.store = store;
+        this.newCompanies = database.recordLeads(store.manifest.leads, this.startedAt);
+    }
+
+    handle(event: PipelineEvent): void {
+        if (event.type !== "item-updated" || event.status !== "done") {
+            return;
+        }
+        const checkpoint = this.store.load(event.stage, event.key);
+        if (checkpoint?.resultData && !checkpoint.unchanged) {
+            this.database.recordResult(
+                event.stage,
+                { company: event.company, item: event.item, input: checkpoint.input as Record<string, unknown> },
+                checkpoint.resultData as Record<string, unknown>,
+                checkpoint.savedAt,
+            );
+        }
+    }
+
+    /**
+     * The fan-out items listed for a company, e.g. its contacts, or undefined unless every stage
+     * they are listed by has succeeded for it
+     */
+    private listedItems(lead: Lead): string[] | undefined {
+        const items = new Set<string>();
+        for (const stage of this.pipeline.stages) {
+            const source = forEachSource(stage);
+            // Items of items are not tracked
+            if (!stage.forEach || !source || this.pipeline.stages.find(({ id }) => id === source)?.forEach) {
+                continue;
+            }
+            const checkpoint = this.store.load(source, lead.company);
+            if (checkpoint?.status !== "done") {
+                return undefined;
+            }
+            const { from, as, key } = stage.forEach;
+            const elements = getPath({ [source]: checkpoint.resultData }, from);
+            (Array.isArray(elements) ? elements : []).forEach((element, index) =>
+                items.add(key ? String(renderTemplate(key, { lead, [as]: element })) : String(index)),
+            );
+        }
+        return [...items];
+    }
+
+    /**
+     * Update the contact lists of the companies whose contacts were listed in full, and close the database
+     */
+    finish(): LeadDatabaseChanges {
+        const changes: LeadDatabaseChanges = { newCompanies: this.newCompanies, newContacts: 0, removedContacts: [] };
+        if (this.pipeline.stages.some((stage) => stage.forEach)) {
+            for (const lead of this.store.manifest.leads) {
+                const items = this.listedItems(lead);
+                if (!items) {
+                    continue;
+                }
+                const { added, removed } = this.database.recordContacts(lead.company, items, this.startedAt);
+                changes.newContacts += added.length;
+                changes.removedContacts.push(...removed.map((contact) => ({ company: lead.company, contact })));
+            }
+        }
+
+        this.database.close();
+        return changes;
+    }
+}
@@ -0,0 +1,217 @@
+import { AgDevClient } from "./ag-dev.js";
+import { createClient, resolveFromInvocationDir } from "./cli.js";
+import { CompanyContacts } from "./contact-verification.js";
+import { DEFAULT_PIPELINE_FILE, Profile, config, loadProfile } from "./config.js";
+import { Lead } from "./leads.js";
+import { OutreachEmail } from "./outreach-email.js";
+import { PipelineDefinition, StageDefinition, loadPipeline } from "./pipeline-definition.js";
+import { PipelineResult, runPipeline, runStageItem } from "./pipeline.js";
+import { ResultCache } from "./result-cache.js";
+import { RunStore } from "./run-store.js";
+
+// Types for running the lead pipeline one step at a time, e.g. from an MCP server
+export type LeadToolsOptions = {
+    // ag.dev profile, defaults to AG_DEV_PROFILE
+    profile?: string;
+    // Pipeline definition whose stages the tools run, defaults to PIPELINE_FILE or the bundled outreach pipeline
+    pipelineFile?: string;
+};
+
+export type ContactInput = {
+    name: string;
+    role?: string;
+    email?: string;
+};
+
+export type OutreachDraftOptions = {
+    // Results of researchCompany and profileContact, researched first when missing
+    companyProfile?: string;
+    contactProfile?: string;
+    // Email variants to write for A/B testing, defaults to the stage input
+    variants?: number;
+    // What a reviewer wants changed about `previousEmail`, to rewrite it instead of starting over
+    feedback?: string;
+    previousEmail?: OutreachEmail;
+    signal?: AbortSignal;
+};
+
+export type PipelineRunOptions = {
+    signal?: AbortSignal;
+    // Called whenever an item starts or finishes, `total` grows as fan-out stages learn their items
+    onProgress?: (progress: { done: number; total: number; message: string }) => void;
+    log?: (message: string) => void;
+};
+
+// Stages of the outreach pipeline the tools run
+const STAGES = {
+    companyProfile: "company-profile",
+    companyContacts: "company-contacts",
+    verifiedContacts: "verified-contacts",
+    contactProfile: "contact-profile",
+    outreachEmail: "outreach-email",
+    outreachEmails: "outreach-emails",
+} as const;
+
+/**
+ * The stages of the lead pipeline as separate operations on a single lead, sharing the pipeline's
+ * agents, schemas and result cache. Every method throws when its stage fails.
+ */
+export class LeadTools {
+    private client: AgDevClient;
+    private profile: Profile;
+    private pipeline: PipelineDefinition;
+    private pipelineFile: string;
+    private cache: ResultCache;
+
+    constructor(options: LeadToolsOptions = {}) {
+        this.profile = loadProfile(options.profile);
+        this.pipelineFile = resolveFromInvocationDir(
+            options.pipelineFile ?? config.PIPELINE_FILE ?? DEFAULT_PIPELINE_FILE,
+        );
+        this.pipeline = loadPipeline(this.pipelineFile);
+        this.client = createClient(this.profile);
+        this.cache = new ResultCache(resolveFromInvocationDir(config.RESULT_CACHE_DIR), config.RESULT_CACHE_TTL);
+    }
+
+    private stage(id: string): StageDefinition {
+        const stage = this.pipeline.stages.find((candidate) => candidate.id === id);
+        if (!stage) {
+            throw new Error(`The ${this.pipeline.name} pipeline has no ${id} stage`);
+        }
+        return stage;
+    }
+
+    private async runStage(
+        stage: StageDefinition,
+        context: { lead: Lead } & Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
+        const result = await runStageItem(stage, context, {
+            client: this.client,
+            agentIds: this.profile.agentIds,
+            timeout: config.AGENT_RUN_TIMEOUT,
+            cache: this.cache,
+            signal,
+        });
+        if (result.status === "error") {
+            throw new Error(`${stage.id} failed for ${context.lead.company}: ${result.error}`);
+        }
+        return result.resultData;
+    }
+
+    /**
+     * Research a company, resolving to its profile
+     */
+    async researchCompany(lead: Lead, signal?: AbortSignal): Promise<string> {
+        const result = await this.runStage(this.stage(STAGES.companyProfile), { lead }, signal);
+        return String(result.result ?? "");
+    }
+
+    /**
+     * Find the contacts of a company and verify them, as the pipeline does before profiling them
+     */
+    async findContacts(lead: Lead, signal?: AbortSignal): Promise<CompanyContacts> {
+        const contacts = await this.runStage(this.stage(STAGES.companyContacts), { lead }, signal);
+        return (await this.runStage(
+            this.stage(STAGES.verifiedContacts),
+            { lead, [STAGES.companyContacts]: contacts },
+            signal,
+        )) as CompanyContacts;
+    }
+
+    /**
+     * Research a contact of a company, resolving to their profile
+     */
+    async profileContact(lead: Lead, contact: ContactInput, signal?: AbortSignal): Promise<string> {
+        const result = await this.runStage(this.stage(STAGES.contactProfile), { lead, contact }, signal);
+        return String(result.result ?? "");
+    }
+
+    /**
+     * Write outreach emails to a contact, researching the company and the contact first unless their
+     * profiles are given. With reviewer feedback, the previous email is rewritten following it.
+     */
+    async draftOutreach(
+        lead: Lead,
+        contact: ContactInput,
+        options: OutreachDraftOptions = {},
+    ): Promise<OutreachEmail[]> {
+        const { signal } = options;
+        const [companyProfile, contactProfile] = await Promise.all([
+            options.companyProfile ?? this.researchCompany(lead, signal),
+            options.contactProfile ?? this.profileContact(lead, contact, signal),
+        ]);
+
+        const stage = this.stage(STAGES.outreachEmail);
+        const { variants, feedback, previousEmail } = options;
+        const context = {
+            lead,
+            contact,
+            [STAGES.companyProfile]: { result: companyProfile },
+            [STAGES.contactProfile]: { result: contactProfile },
+            // Read through placeholders, so reviewer text is never rendered as a template itself
+            review: {
+                feedback,
+                previousEmail: previousEmail && `Subject: ${previousEmail.subject}\n\n${previousEmail.body}`,
+            },
+        };
+        const input = {
+            ...(stage.input as Record<string, unknown>),
+            ...(variants === undefined ? {} : { variants }),
+            ...(feedback ? { feedback: "{{review.feedback}}" } : {}),
+            ...(feedback && previousEmail ? { previousEmail: "{{review.previousEmail}}" } : {}),
+        };
+        const email = await this.runStage({ ...stage, input }, context, signal);
+
+        const parsed = await this.runStage(
+            this.stage(STAGES.outreachEmails),
+            { ...context, [STAGES.outreachEmail]: email },
+            signal,
+        );
+        return parsed.emails as OutreachEmail[];
+    }
+
+    /**
+     * Run the whole pipeline for one lead, checkpointed to a run directory like a CLI run
+     */
+    async runPipeline(lead: Lead, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+        const { signal, onProgress, log = () => {} } = options;
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+        const store = RunStore.create(resolveFromInvocationDir(`data/runs/${timestamp}`), {
+            sourceFile: "lead-tools",
+            pipelineFile: this.pipelineFile,
+            profile: this.profile.name,
+            leads: [lead],
+            createdAt: new Date().toISOString(),
+        });
+
+        // Item key per stage -> whether it has finished
+        const items = new Map<string, boolean>();
+        const report = (message: string) => {
+            const done = [...items.values()].filter(Boolean).length;
+            onProgress?.({ done, total: items.size, message });
+        };
+
+        return runPipeline(this.pipeline, [lead], {
+            client: this.client,
+            store,
+            agentIds: this.profile.agentIds,
+            concurrency: config.AGENT_BATCH_CONCURRENCY,
+            timeout: config.AGENT_RUN_TIMEOUT,
+            cache: this.cache,
+            signal,
+            log,
+            onEvent: (event) => {
+                if (event.type === "stage-started") {
+                    event.items.forEach((item) => items.set(`${event.stage}/${item.key}`, false));
+                    report(`${event.stage}: started for ${event.items.length} item(s)`);
+                } else if (event.type === "item-updated" && (event.status === "done" || event.status === "error")) {
+                    items.set(`${event.stage}/${event.key}`, true);
+                    report(
+                        `${event.stage}: ${event.item ?? event.company} ${event.status === "done" ? "done" : "failed"}`,
+                    );
+                }
+            },
+        });
+    }
+}
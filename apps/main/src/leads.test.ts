@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { LeadLoaderOptions, formatDelimited, loadLeads, parseDelimited } from "./leads.js";
+
+describe("parseDelimited", () => {
+    it("reads quoted fields with delimiters, doubled quotes and line breaks", () => {
+        assert.deepEqual(parseDelimited('Company,Notes\r\n"Acme, Inc.","Says ""hi""\nand bye"\r\nGlobex,\n'), [
+            ["Company", "Notes"],
+            ["Acme, Inc.", 'Says "hi"\nand bye'],
+            ["Globex", ""],
+        ]);
+    });
+
+    it("keeps empty header cells and drops blank lines", () => {
+        assert.deepEqual(parseDelimited("Company\t\tOwner\n\n \t \t \nAcme\t\tKim", "\t"), [
+            ["Company", "", "Owner"],
+            ["Acme", "", "Kim"],
+        ]);
+    });
+
+    it("rejects unterminated quoted fields", () => {
+        assert.throws(() => parseDelimited('Company\n"Acme\n'), /Unterminated quoted field/);
+    });
+
+    it("reads back what formatDelimited writes", () => {
+        const rows = [
+            ["Company", "Notes"],
+            ["Acme, Inc.", 'Says "hi"\r\nand bye'],
+        ];
+        assert.deepEqual(parseDelimited(formatDelimited(rows)), rows);
+    });
+});
+
+describe("loadLeads", () => {
+    let dir: string;
+
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), "leads-"));
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    const load = (name: string, content: string, options?: LeadLoaderOptions) => {
+        writeFileSync(join(dir, name), content);
+        return loadLeads(join(dir, name), options);
+    };
+
+    it("leaves out unnamed columns without values, e.g. from a trailing delimiter", () => {
+        const { leads } = load("trailing.csv", "Company,Domain,\nAcme,acme.example,\nGlobex,globex.example,\n");
+
+        assert.deepEqual(leads, [
+            { company: "Acme", domain: "acme.example" },
+            { company: "Globex", domain: "globex.example" },
+        ]);
+    });
+
+    it("rejects unnamed columns with values", () => {
+        assert.throws(
+            () => load("unnamed.csv", "Company,,Owner,\nAcme,x,Kim,\n"),
+            /Column 2 has values but no name in the header row/,
+        );
+    });
+
+    it("rejects columns named twice", () => {
+        assert.throws(
+            () => load("twice.csv", "Company,Email,Notes,Email\nAcme,a@acme.example,,b@acme.example\n"),
+            /Column "Email" appears twice in the header row, as columns 2 and 4/,
+        );
+    });
+
+    it("numbers the columns of files without a header row", () => {
+        const { leads } = load("no-header.csv", "Acme,acme.example\n", { header: false });
+
+        assert.deepEqual(leads, [{ company: "Acme", column2: "acme.example" }]);
+    });
+});
@@ -0,0 +1,330 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+
+// Types for lead input files
+export type LeadFormat = "csv" | "tsv" | "json" | "jsonl";
+
+export type Lead = {
+    company: string;
+    // Any other column of the source file, e.g. domain, industry, owner or priority
+    [field: string]: string;
+};
+
+export type LeadLoaderOptions = {
+    // Input format, detected from the file extension when omitted
+    format?: LeadFormat;
+    // Whether a CSV/TSV file starts with a header row, detected when omitted
+    header?: boolean;
+    // Lead field to source column mapping, e.g. { company: "Account Name" }
+    columns?: Record<string, string>;
+};
+
+export type LoadedLeads = {
+    leads: Lead[];
+    // Number of rows dropped because their company was already listed
+    duplicates: number;
+};
+
+type SourceTable = {
+    columns: string[];
+    records: Record<string, string>[];
+};
+
+const LEAD_FORMATS: LeadFormat[] = ["csv", "tsv", "json", "jsonl"];
+
+// Column names recognised as the company name when no mapping is given
+const COMPANY_COLUMN_ALIASES = [
+    "company",
+    "company name",
+    "account",
+    "account name",
+    "organization",
+    "organisation",
+    "name",
+];
+
+/**
+ * Parse delimiter-separated text following RFC 4180: quoted fields may contain
+ * delimiters, line breaks and doubled quotes.
+ */
+export function parseDelimited(content: string, delimiter = ","): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.length === 0) {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error("Unterminated quoted field");
+    }
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+/**
+ * Format rows as delimiter-separated text, quoting fields that contain the delimiter,
+ * quotes or line breaks. The inverse of parseDelimited.
+ */
+export function formatDelimited(rows: string[][], delimiter = ","): string {
+    const quote = (field: string) =>
+        field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    return rows.map((row) => row.map(quote).join(delimiter)).join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse `field=Column` mappings as given on the command line
+ */
+export function parseColumnMappings(specs: string[]): Record<string, string> {
+    const columns: Record<string, string> = {};
+    for (const spec of specs) {
+        const separator = spec.indexOf("=");
+        const field = spec.slice(0, separator).trim();
+        const column = spec.slice(separator + 1).trim();
+        if (separator === -1 || !field || !column) {
+            throw new Error(`Invalid column mapping "${spec}", expected <field>=<column>`);
+        }
+        columns[field] = column;
+    }
+    return columns;
+}
+
+/**
+ * Detect the input format from the file extension, defaulting to CSV
+ */
+export function detectLeadFormat(filePath: string): LeadFormat {
+    const extension = extname(filePath).slice(1).toLowerCase();
+    if (extension === "ndjson") {
+        return "jsonl";
+    }
+    return LEAD_FORMATS.includes(extension as LeadFormat) ? (extension as LeadFormat) : "csv";
+}
+
+/**
+ * Turn a column name into a field name, e.g. "Account Owner" becomes "accountOwner"
+ */
+function toFieldName(column: string): string {
+    const words = column
+        .trim()
+        .split(/[^A-Za-z0-9]+/)
+        .filter((word) => word.length > 0);
+    return words
+        .map((word, index) =>
+            index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1),
+        )
+        .join("");
+}
+
+function stringifyValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value).trim();
+}
+
+function isCompanyHeader(cell: string, columns: Record<string, string>): boolean {
+    const name = cell.trim().toLowerCase();
+    return columns.company ? name === columns.company.toLowerCase() : COMPANY_COLUMN_ALIASES.includes(name);
+}
+
+/**
+ * Reject header rows with columns that could not be told apart: unnamed ones holding values, or
+ * two columns of the same name, whose values would overwrite each other
+ */
+function checkHeader(columns: string[], positions: number[]): void {
+    columns.forEach((column, index) => {
+        if (!column) {
+            throw new Error(`Column ${positions[index]! + 1} has values but no name in the header row`);
+        }
+        const first = columns.indexOf(column);
+        if (first !== index) {
+            throw new Error(
+                `Column "${column}" appears twice in the header row, as columns ${positions[first]! + 1} and ${positions[index]! + 1}`,
+            );
+        }
+    });
+}
+
+function readDelimited(content: string, delimiter: string, options: LeadLoaderOptions): SourceTable {
+    const rows = parseDelimited(content, delimiter);
+    const [firstRow = []] = rows;
+    const header = options.header ?? firstRow.some((cell) => isCompanyHeader(cell, options.columns ?? {}));
+
+    const width = Math.max(0, ...rows.map((row) => row.length));
+    const dataRows = header ? rows.slice(1) : rows;
+    let positions = Array.from({ length: width }, (_, index) => index);
+    let columns = positions.map((index) => `column${index + 1}`);
+    if (header) {
+        // Columns without a name and without values, e.g. from a trailing delimiter, are left out
+        positions = positions.filter((index) => firstRow[index]?.trim() || dataRows.some((row) => row[index]?.trim()));
+        columns = positions.map((index) => firstRow[index]?.trim() ?? "");
+        checkHeader(columns, positions);
+    }
+
+    const records = dataRows.map((row) =>
+        Object.fromEntries(columns.map((column, index) => [column, (row[positions[index]!] ?? "").trim()])),
+    );
+
+    return { columns, records };
+}
+
+function readJsonRecords(values: unknown[]): SourceTable {
+    const columns = new Set<string>();
+    const records = values.map((value) => {
+        if (typeof value === "string") {
+            columns.add("company");
+            return { company: value.trim() };
+        }
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+            throw new Error("Expected every lead to be an object or a company name");
+        }
+        return Object.fromEntries(
+            Object.entries(value).map(([key, fieldValue]) => {
+                columns.add(key);
+                return [key, stringifyValue(fieldValue)];
+            }),
+        );
+    });
+
+    return { columns: [...columns], records };
+}
+
+function readSourceTable(content: string, format: LeadFormat, options: LeadLoaderOptions): SourceTable {
+    switch (format) {
+        case "csv":
+            return readDelimited(content, ",", options);
+        case "tsv":
+            return readDelimited(content, "\t", options);
+        case "json": {
+            const parsed = JSON.parse(content);
+            if (!Array.isArray(parsed)) {
+                throw new Error("Expected a JSON array of leads");
+            }
+            return readJsonRecords(parsed);
+        }
+        case "jsonl":
+            return readJsonRecords(
+                content
+                    .split(/\r?\n/)
+                    .filter((line) => line.trim().length > 0)
+                    .map((line, index) => {
+                        try {
+                            return JSON.parse(line);
+                        } catch {
+                            throw new Error(`Invalid JSON on line ${index + 1}`);
+                        }
+                    }),
+            );
+    }
+}
+
+/**
+ * Find the source column a mapping refers to: by exact name, case-insensitive name or 1-based position
+ */
+function resolveColumn(spec: string, columns: string[]): string {
+    const column =
+        columns.find((name) => name === spec) ??
+        columns.find((name) => name.toLowerCase() === spec.toLowerCase()) ??
+        (/^\d+$/.test(spec) ? columns[Number(spec) - 1] : undefined);
+
+    if (!column) {
+        throw new Error(`Column "${spec}" not found, available columns: ${columns.join(", ")}`);
+    }
+    return column;
+}
+
+/**
+ * Map source records to leads, carrying every unmapped column along and dropping duplicate companies
+ */
+function toLeads(table: SourceTable, mappings: Record<string, string>): LoadedLeads {
+    const fieldColumns = new Map(
+        Object.entries(mappings).map(([field, spec]) => [field, resolveColumn(spec, table.columns)]),
+    );
+
+    if (!fieldColumns.has("company")) {
+        const companyColumn =
+            table.columns.find((column) => COMPANY_COLUMN_ALIASES.includes(column.toLowerCase())) ?? table.columns[0];
+        if (!companyColumn) {
+            return { leads: [], duplicates: 0 };
+        }
+        fieldColumns.set("company", companyColumn);
+    }
+
+    const mappedColumns = new Set(fieldColumns.values());
+    const seen = new Set<string>();
+    const leads: Lead[] = [];
+    let duplicates = 0;
+
+    for (const record of table.records) {
+        const lead: Lead = { company: "" };
+
+        for (const column of table.columns) {
+            if (!mappedColumns.has(column) && record[column]) {
+                lead[toFieldName(column)] = record[column];
+            }
+        }
+        fieldColumns.forEach((column, field) => {
+            if (record[column]) {
+                lead[field] = record[column];
+            }
+        });
+
+        if (!lead.company) {
+            continue;
+        }
+
+        const key = lead.company.toLowerCase().replace(/\s+/g, " ");
+        if (seen.has(key)) {
+            duplicates++;
+            continue;
+        }
+        seen.add(key);
+        leads.push(lead);
+    }
+
+    return { leads, duplicates };
+}
+
+/**
+ * Load leads from a CSV, TSV, JSON or JSONL file
+ */
+export function loadLeads(filePath: string, options: LeadLoaderOptions = {}): LoadedLeads {
+    const format = options.format ?? detectLeadFormat(filePath);
+    // Strip a UTF-8 byte order mark, common in spreadsheet exports
+    const content = readFileSync(filePath, "utf-8").replace(/^\uFEFF/, "");
+    const table = readSourceTable(content, format, options);
+    return toLeads(table, options.columns ?? {});
+}
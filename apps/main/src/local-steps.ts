@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+import { RawContact, verifyContacts } from "./contact-verification.js";
+import { loadDomainCheck } from "./email-domain-check.js";
+import { parseOutreachEmails } from "./outreach-email.js";
+
+// Types for pipeline stages that run locally instead of an agent
+export type LocalStepItem = {
+    key: string;
+    input: Record<string, unknown>;
+};
+
+export type LocalStepResult =
+    | { status: "done"; resultData: Record<string, unknown> }
+    | { status: "error"; error: string };
+
+export type LocalStep = {
+    // Schema of the stage's `options`, checked when the pipeline is loaded
+    options: z.ZodType;
+    // Runs for all items of the stage at once, so a step can look across leads
+    run(items: LocalStepItem[], options: unknown, signal?: AbortSignal): Promise<LocalStepResult[]>;
+};
+
+/**
+ * Define a step whose options are parsed before it runs
+ */
+function localStep<TOptions>(step: {
+    options: z.ZodType<TOptions>;
+    run(items: LocalStepItem[], options: TOptions, signal?: AbortSignal): Promise<LocalStepResult[]>;
+}): LocalStep {
+    return {
+        options: step.options,
+        run: (items, options, signal) => step.run(items, step.options.parse(options ?? {}), signal),
+    };
+}
+
+const verifyContactsStep = localStep({
+    options: z.strictObject({
+        // Contacts scoring lower are removed before they are profiled and emailed
+        minConfidence: z.number().min(0).max(1).default(0.5),
+        // `dns` or the path of a plugin module checking email domains, verification runs offline without one
+        domainCheck: z.string().optional(),
+    }),
+    async run(items, options, signal) {
+        const checkDomain = options.domainCheck ? await loadDomainCheck(options.domainCheck) : undefined;
+
+        const valid = items.filter((item) => Array.isArray(item.input.contacts));
+        const verified = await verifyContacts(
+            valid.map(({ input }) => ({
+                company: String(input.company ?? ""),
+                domain: typeof input.domain === "string" && input.domain ? input.domain : undefined,
+                contacts: input.contacts as RawContact[],
+            })),
+            { minConfidence: options.minConfidence, checkDomain, signal },
+        );
+
+        return items.map((item) => {
+            const index = valid.indexOf(item);
+            return index === -1
+                ? { status: "error", error: "Input contacts is not an array of contacts" }
+                : { status: "done", resultData: verified[index]! };
+        });
+    },
+});
+
+const parseOutreachEmailStep = localStep({
+    options: z.strictObject({}),
+    async run(items) {
+        return items.map((item) => {
+            try {
+                return { status: "done", resultData: { emails: parseOutreachEmails(item.input.result) } };
+            } catch (error) {
+                return { status: "error", error: error instanceof Error ? error.message : String(error) };
+            }
+        });
+    },
+});
+
+/**
+ * Built-in steps by the name stages refer to them with `step`
+ */
+export const LOCAL_STEPS: Record<string, LocalStep> = {
+    "verify-contacts": verifyContactsStep,
+    "parse-outreach-email": parseOutreachEmailStep,
+};
@@ -0,0 +1,431 @@
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import { extname } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { parseArgs } from "util";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { Agent, AgentRun, AgentRunEvent, ApiError, ListResponse } from "./ag-dev.js";
+import { renderTemplate } from "./pipeline-definition.js";
+
+// Scenario files script how the mock agents behave
+const runScriptSchema = z.object({
+    // Final status of the run
+    status: z.enum(["done", "error"]).optional(),
+    // Result data, `{{input.<field>}}` placeholders are filled from the run input
+    resultData: z.record(z.string(), z.unknown()).optional(),
+    // Time spent in "pending" and then "running" before the run completes, in milliseconds
+    pendingMs: z.number().min(0).optional(),
+    runningMs: z.number().min(0).optional(),
+    // Events such as planning steps and tool calls, spread evenly over the running time
+    events: z.array(z.object({ type: z.string(), data: z.record(z.string(), z.unknown()).default({}) })).optional(),
+});
+
+const agentScriptSchema = runScriptSchema.extend({
+    id: z.string(),
+    goalPrompt: z.string().default("Mock agent"),
+    inputSchema: z.record(z.string(), z.unknown()).default({ type: "object" }),
+    // Overrides for runs whose input contains all `match` fields
+    cases: z.array(runScriptSchema.extend({ match: z.record(z.string(), z.unknown()) })).default([]),
+});
+
+const faultSchema = z.object({
+    // HTTP status to answer with, e.g. 429 or 500
+    status: z.number().int(),
+    // Share of matching requests that fail, between 0 and 1
+    rate: z.number().min(0).max(1),
+    // Only requests with this method and a path containing this text
+    method: z.string().optional(),
+    path: z.string().optional(),
+    // Value of the Retry-After header in seconds
+    retryAfter: z.number().min(0).optional(),
+});
+
+const scenarioSchema = z.object({
+    // Required X-Api-Key value, any key is accepted when omitted
+    apiKey: z.string().optional(),
+    pendingMs: z.number().min(0).default(200),
+    runningMs: z.number().min(0).default(800),
+    agents: z.array(agentScriptSchema).default([]),
+    faults: z.array(faultSchema).default([]),
+});
+
+export type MockRunScript = z.infer<typeof runScriptSchema>;
+export type MockAgentScript = z.infer<typeof agentScriptSchema>;
+export type MockFault = z.infer<typeof faultSchema>;
+export type MockScenario = z.infer<typeof scenarioSchema>;
+
+export type MockServerOptions = {
+    // Source of randomness for fault injection, e.g. a seeded generator in tests
+    random?: () => number;
+    // Where every completed run is posted to, like a platform webhook
+    webhookUrl?: string;
+};
+
+type MockRun = {
+    run: AgentRun;
+    startedAt: number;
+    script: Required<Pick<MockRunScript, "status" | "pendingMs" | "runningMs" | "events">> &
+        Pick<MockRunScript, "resultData">;
+};
+
+class HttpError extends Error {
+    readonly statusCode: number;
+    readonly error: string;
+
+    constructor(statusCode: number, error: string, message: string) {
+        super(message);
+        this.name = "HttpError";
+        this.statusCode = statusCode;
+        this.error = error;
+    }
+}
+
+/**
+ * Load and validate a scenario from a YAML or JSON file
+ */
+export function loadScenario(filePath: string): MockScenario {
+    const content = readFileSync(filePath, "utf-8");
+    const raw = extname(filePath).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+    return scenarioSchema.parse(raw ?? {});
+}
+
+function matches(input: Record<string, unknown>, match: Record<string, unknown>): boolean {
+    return Object.entries(match).every(([key, value]) => JSON.stringify(input[key]) === JSON.stringify(value));
+}
+
+function paginate<T>(items: T[], url: URL): ListResponse<T> {
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const pageSize = Number(url.searchParams.get("pageSize") ?? 100);
+    return {
+        items: items.slice((page - 1) * pageSize, page * pageSize),
+        total: items.length,
+        page,
+        pageSize,
+    };
+}
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    let body = "";
+    for await (const chunk of request) {
+        body += chunk;
+    }
+    if (!body) {
+        return {};
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new HttpError(400, "BAD_REQUEST", "Request body is not valid JSON");
+    }
+}
+
+function send(response: ServerResponse, statusCode: number, body?: unknown, headers: Record<string, string> = {}) {
+    response.writeHead(statusCode, {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...headers,
+    });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * In-memory implementation of the ag.dev agent API used by AgDevClient, for offline
+ * development and tests. Runs move from pending to running to done or error on a timer,
+ * and faults can be injected to exercise retries and failure handling.
+ */
+export function createMockServer(scenario: MockScenario, options: MockServerOptions = {}): Server {
+    const random = options.random ?? Math.random;
+    const scripts = new Map(scenario.agents.map((agent) => [agent.id, agent]));
+    const agents = new Map<string, Agent>();
+    const runs = new Map<string, MockRun>();
+
+    const now = new Date().toISOString();
+    scenario.agents.forEach((script) => {
+        agents.set(script.id, {
+            id: script.id,
+            modelStackId: "mock",
+            goalPrompt: script.goalPrompt,
+            inputSchema: { type: "object", ...script.inputSchema },
+            tools: [],
+            resultType: "json",
+            createdAt: now,
+            updatedAt: now,
+        });
+    });
+
+    const getAgent = (agentId: string): Agent => {
+        const agent = agents.get(agentId);
+        if (!agent) {
+            throw new HttpError(404, "NOT_FOUND", `Agent ${agentId} not found`);
+        }
+        return agent;
+    };
+
+    /**
+     * Bring a run up to date with the time elapsed since it was created
+     */
+    const refreshRun = (mockRun: MockRun): AgentRun => {
+        const { run, startedAt, script } = mockRun;
+        const elapsed = Date.now() - startedAt;
+
+        if (run.status === "pending" || run.status === "running") {
+            if (elapsed >= script.pendingMs + script.runningMs) {
+                run.status = script.status;
+                run.resultData = script.resultData
+                    ? (renderTemplate(script.resultData, { input: run.input }) as Record<string, unknown>)
+                    : undefined;
+                run.completedAt = new Date(startedAt + script.pendingMs + script.runningMs).toISOString();
+                run.updatedAt = run.completedAt;
+            } else if (elapsed >= script.pendingMs && run.status === "pending") {
+                run.status = "running";
+                run.updatedAt = new Date(startedAt + script.pendingMs).toISOString();
+            }
+        }
+        return run;
+    };
+
+    const getRun = (agentId: string, runId: string): MockRun => {
+        const mockRun = runs.get(runId);
+        if (!mockRun || mockRun.run.agentId !== agentId) {
+            throw new HttpError(404, "NOT_FOUND", `Run ${runId} not found`);
+        }
+        refreshRun(mockRun);
+        return mockRun;
+    };
+
+    const runEvents = ({ run, startedAt, script }: MockRun): AgentRunEvent[] => {
+        const event = (type: string, offset: number, data: Record<string, unknown> = {}) => ({
+            id: `${run.id}-${type}`,
+            runId: run.id,
+            type,
+            timestamp: new Date(startedAt + offset).toISOString(),
+            data,
+        });
+
+        const events = [event("run.created", 0, { input: run.input })];
+        if (run.status !== "pending") {
+            events.push(event("run.started", script.pendingMs));
+
+            const elapsed = Date.now() - startedAt;
+            script.events.forEach((scripted, index) => {
+                const offset = script.pendingMs + (script.runningMs * (index + 1)) / (script.events.length + 1);
+                if (elapsed >= offset) {
+                    const data = renderTemplate(scripted.data, { input: run.input }) as Record<string, unknown>;
+                    events.push({ ...event(scripted.type, offset, data), id: `${run.id}-${index}-${scripted.type}` });
+                }
+            });
+        }
+        if (run.status === "done" || run.status === "error") {
+            events.push(
+                event(run.status === "done" ? "run.completed" : "run.failed", script.pendingMs + script.runningMs, {
+                    status: run.status,
+                }),
+            );
+        }
+        return events;
+    };
+
+    const createRun = (agentId: string, input: Record<string, unknown>): AgentRun => {
+        getAgent(agentId);
+        const script = scripts.get(agentId);
+        const override = script?.cases.find((scriptCase) => matches(input, scriptCase.match));
+        const createdAt = new Date().toISOString();
+
+        const run: AgentRun = {
+            id: `run_${randomUUID()}`,
+            agentId,
+            status: "pending",
+            input,
+            createdAt,
+            updatedAt: createdAt,
+        };
+        const mockRun: MockRun = {
+            run,
+            startedAt: Date.now(),
+            script: {
+                status: override?.status ?? script?.status ?? "done",
+                resultData: override?.resultData ?? script?.resultData ?? { result: "Mock result" },
+                pendingMs: override?.pendingMs ?? script?.pendingMs ?? scenario.pendingMs,
+                runningMs: override?.runningMs ?? script?.runningMs ?? scenario.runningMs,
+                events: override?.events ?? script?.events ?? [],
+            },
+        };
+        runs.set(run.id, mockRun);
+
+        if (options.webhookUrl) {
+            const { webhookUrl } = options;
+            setTimeout(() => {
+                const body = JSON.stringify({ type: "run.completed", run: refreshRun(mockRun) });
+                fetch(webhookUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body }).catch(
+                    (error) =>
+                        console.error(
+                            `Webhook to ${webhookUrl} failed: ${error instanceof Error ? error.message : error}`,
+                        ),
+                );
+            }, mockRun.script.pendingMs + mockRun.script.runningMs);
+        }
+        return { ...run };
+    };
+
+    const route = async (request: IncomingMessage, url: URL): Promise<{ status: number; body?: unknown }> => {
+        const method = request.method ?? "GET";
+        const path = url.pathname.replace(/\/$/, "");
+        const parts = path.split("/").slice(1);
+
+        if (parts[0] !== "v0.1" || parts[1] !== "agents") {
+            throw new HttpError(404, "NOT_FOUND", `No route for ${method} ${url.pathname}`);
+        }
+        const [, , agentId, runsSegment, runId, eventsSegment] = parts;
+
+        // /v0.1/agents
+        if (!agentId) {
+            if (method === "GET") {
+                return { status: 200, body: paginate([...agents.values()], url) };
+            }
+            if (method === "POST") {
+                const body = await readBody(request);
+                const createdAt = new Date().toISOString();
+                const agent = { ...body, id: `agent_${randomUUID()}`, createdAt, updatedAt: createdAt } as Agent;
+                agents.set(agent.id, agent);
+                return { status: 201, body: agent };
+            }
+        }
+        // /v0.1/agents/{id}
+        else if (!runsSegment) {
+            if (method === "GET") {
+                return { status: 200, body: getAgent(agentId) };
+            }
+            if (method === "PATCH") {
+                const agent = { ...getAgent(agentId), ...(await readBody(request)), id: agentId };
+                agent.updatedAt = new Date().toISOString();
+                agents.set(agentId, agent);
+                return { status: 200, body: agent };
+            }
+            if (method === "DELETE") {
+                getAgent(agentId);
+                agents.delete(agentId);
+                return { status: 204 };
+            }
+        }
+        // /v0.1/agents/{id}/runs
+        else if (runsSegment === "runs" && !runId) {
+            if (method === "GET") {
+                getAgent(agentId);
+                const status = url.searchParams.get("status");
+                const createdAfter = url.searchParams.get("createdAfter");
+                const createdBefore = url.searchParams.get("createdBefore");
+                const agentRuns = [...runs.values()]
+                    .filter((mockRun) => mockRun.run.agentId === agentId)
+                    .map((mockRun) => ({ ...refreshRun(mockRun) }))
+                    .filter(
+                        (run) =>
+                            (!status || run.status === status) &&
+                            (!createdAfter || run.createdAt >= createdAfter) &&
+                            (!createdBefore || run.createdAt < createdBefore),
+                    );
+                return { status: 200, body: paginate(agentRuns, url) };
+            }
+            if (method === "POST") {
+                return { status: 201, body: createRun(agentId, await readBody(request)) };
+            }
+        }
+        // /v0.1/agents/{id}/runs/{runId}[/events]
+        else if (runsSegment === "runs" && runId && method === "GET") {
+            const mockRun = getRun(agentId, runId);
+            if (!eventsSegment) {
+                return { status: 200, body: { ...mockRun.run } };
+            }
+            if (eventsSegment === "events") {
+                return { status: 200, body: paginate(runEvents(mockRun), url) };
+            }
+        }
+
+        throw new HttpError(404, "NOT_FOUND", `No route for ${method} ${url.pathname}`);
+    };
+
+    return createServer(async (request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        const method = request.method ?? "GET";
+
+        try {
+            if (scenario.apiKey && request.headers["x-api-key"] !== scenario.apiKey) {
+                throw new HttpError(401, "UNAUTHORIZED", "Invalid API key");
+            }
+
+            const fault = scenario.faults.find(
+                (candidate) =>
+                    (!candidate.method || candidate.method.toUpperCase() === method) &&
+                    (!candidate.path || url.pathname.includes(candidate.path)) &&
+                    random() < candidate.rate,
+            );
+            if (fault) {
+                const headers: Record<string, string> =
+                    fault.retryAfter === undefined ? {} : { "Retry-After": String(fault.retryAfter) };
+                const error: ApiError = {
+                    error: fault.status === 429 ? "RATE_LIMITED" : "INJECTED_FAULT",
+                    message: `Injected ${fault.status} response`,
+                    statusCode: fault.status,
+                };
+                send(response, fault.status, error, headers);
+                return;
+            }
+
+            const { status, body } = await route(request, url);
+            send(response, status, body);
+        } catch (error) {
+            const httpError =
+                error instanceof HttpError
+                    ? error
+                    : new HttpError(500, "INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+            const body: ApiError = {
+                error: httpError.error,
+                message: httpError.message,
+                statusCode: httpError.statusCode,
+            };
+            send(response, httpError.statusCode, body);
+        }
+    });
+}
+
+/**
+ * Start a mock server and resolve with its base URL, pass port 0 for a random free port
+ */
+export async function startMockServer(
+    scenario: MockScenario,
+    port = 0,
+    options: MockServerOptions = {},
+): Promise<{ server: Server; baseUrl: string }> {
+    const server = createMockServer(scenario, options);
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    const address = server.address() as AddressInfo;
+    return { server, baseUrl: `http://127.0.0.1:${address.port}` };
+}
+
+const DEFAULT_SCENARIO_FILE = fileURLToPath(new URL("../mock/scenario.yaml", import.meta.url));
+
+// Run as a standalone server: tsx src/mock-server.ts [--scenario <file>] [--port <port>] [--webhook-url <url>]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const { values } = parseArgs({
+        options: {
+            scenario: { type: "string", default: DEFAULT_SCENARIO_FILE },
+            port: { type: "string", default: "4010" },
+            "webhook-url": { type: "string" },
+        },
+    });
+
+    const scenario = loadScenario(values.scenario);
+    const { baseUrl } = await startMockServer(scenario, Number(values.port), { webhookUrl: values["webhook-url"] });
+
+    console.log(`Mock ag.dev API listening on ${baseUrl}`);
+    console.log(`Scenario: ${values.scenario}`);
+    if (values["webhook-url"]) {
+        console.log(`Posting completed runs to ${values["webhook-url"]}`);
+    }
+    console.log(`Point the pipeline at it with AG_DEV_BASE_URL=${baseUrl}`);
+    if (scenario.agents.length > 0) {
+        console.log(`Agents: ${scenario.agents.map((agent) => agent.id).join(", ")}`);
+    }
+}
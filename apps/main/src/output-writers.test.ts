@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { parseDelimited } from "./leads.js";
+import { OUTPUT_WRITERS, PipelineResults, contactRecords, jsonResultsPathFor, loadResults } from "./output-writers.js";
+
+const RESULTS: PipelineResults = {
+    leads: [{ company: "Acme", domain: "acme.example" }, { company: "Globex" }],
+    failures: [{ stage: "company-contacts", company: "Globex", kind: "run", error: "Agent run failed" }],
+    companyProfiles: [{ company: "Acme", content: "Acme makes anvils." }],
+    companyContacts: [{ company: "Acme", contacts: [{ name: "Jane Doe", role: "CEO", email: "jane@gmail.com" }] }],
+    verifiedContacts: [
+        {
+            company: "Acme",
+            contacts: [
+                { name: "Jane Doe", role: "CEO", email: "jane.doe@acme.example", confidence: 1 },
+                { name: "Kim", role: "CTO" },
+            ],
+        },
+    ],
+    contactProfiles: [{ company: "Acme", contact: "Jane Doe", content: "Jane founded Acme." }],
+    outreachEmails: [
+        {
+            company: "Acme",
+            contact: "Jane Doe",
+            variants: [
+                {
+                    variant: "A",
+                    subject: 'Anvils, "faster"',
+                    body: "Hi Jane,\nQuick question.",
+                    personalizationNotes: [],
+                },
+                { variant: "B", subject: "Short one", body: "Hi Jane", personalizationNotes: [] },
+            ],
+        },
+    ],
+};
+
+describe("contactRecords", () => {
+    it("joins the stage outputs into one record per contact and lists companies without contacts", () => {
+        const records = contactRecords(RESULTS);
+
+        assert.deepEqual(
+            records.map(({ company, contact, email, companyProfile, contactProfile, emails }) => ({
+                company,
+                contact,
+                email,
+                companyProfile,
+                contactProfile,
+                emails: emails.map((email) => email.variant),
+            })),
+            [
+                {
+                    company: "Acme",
+                    contact: "Jane Doe",
+                    email: "jane.doe@acme.example",
+                    companyProfile: "Acme makes anvils.",
+                    contactProfile: "Jane founded Acme.",
+                    emails: ["A", "B"],
+                },
+                {
+                    company: "Acme",
+                    contact: "Kim",
+                    email: undefined,
+                    companyProfile: "Acme makes anvils.",
+                    contactProfile: undefined,
+                    emails: [],
+                },
+                {
+                    company: "Globex",
+                    contact: undefined,
+                    email: undefined,
+                    companyProfile: undefined,
+                    contactProfile: undefined,
+                    emails: [],
+                },
+            ],
+        );
+    });
+});
+
+describe("jsonResultsPathFor", () => {
+    it("puts the JSON results next to the output", () => {
+        assert.equal(jsonResultsPathFor("out/contacts.csv"), "out/contacts.json");
+        assert.equal(jsonResultsPathFor("out/briefings"), "out/briefings.json");
+        assert.equal(jsonResultsPathFor("out/contacts.json"), "out/contacts.results.json");
+    });
+});
+
+describe("OUTPUT_WRITERS", () => {
+    let dir: string;
+
+    before(() => {
+        dir = mkdtempSync(join(tmpdir(), "output-writers-"));
+    });
+
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it("writes JSON that loadResults reads back", () => {
+        const outPath = join(dir, "results.json");
+        OUTPUT_WRITERS.json!.write(RESULTS, outPath);
+
+        assert.deepEqual(loadResults(outPath), RESULTS);
+    });
+
+    it("rejects JSON files without leads", () => {
+        const outPath = join(dir, "other.json");
+        writeFileSync(outPath, JSON.stringify({ contacts: [] }));
+
+        assert.throws(() => loadResults(outPath), /is not a results file, it has no leads/);
+    });
+
+    it("writes one JSON line per contact", () => {
+        const outPath = join(dir, "contacts.jsonl");
+        OUTPUT_WRITERS.jsonl!.write(RESULTS, outPath);
+
+        const lines = readFileSync(outPath, "utf-8").trimEnd().split("\n");
+        assert.deepEqual(
+            lines.map((line) => JSON.parse(line).contact),
+            ["Jane Doe", "Kim", undefined],
+        );
+    });
+
+    it("writes CSV rows with the first email variant, quoting fields that need it", () => {
+        const outPath = join(dir, "contacts.csv");
+        OUTPUT_WRITERS.csv!.write(RESULTS, outPath);
+
+        const [header, jane, kim, globex] = parseDelimited(readFileSync(outPath, "utf-8"));
+        assert.equal(header?.length, 11);
+        assert.deepEqual(jane?.slice(-3), ["A", 'Anvils, "faster"', "Hi Jane,\nQuick question."]);
+        assert.deepEqual(kim?.slice(0, 5), ["Acme", "acme.example", "Kim", "CTO", ""]);
+        assert.deepEqual(globex?.slice(0, 3), ["Globex", "", ""]);
+    });
+
+    it("writes HubSpot rows only for contacts with an email address", () => {
+        const outPath = join(dir, "hubspot.csv");
+        OUTPUT_WRITERS.hubspot!.write(RESULTS, outPath);
+
+        const rows = parseDelimited(readFileSync(outPath, "utf-8"));
+        assert.deepEqual(rows.slice(1), [
+            [
+                "Jane",
+                "Doe",
+                "jane.doe@acme.example",
+                "CEO",
+                "Acme",
+                "acme.example",
+                'Anvils, "faster"',
+                "Hi Jane,\nQuick question.",
+            ],
+        ]);
+    });
+
+    it("writes a Markdown briefing per company", () => {
+        const outPath = join(dir, "briefings");
+        OUTPUT_WRITERS.markdown!.write({ ...RESULTS, leads: [...RESULTS.leads, { company: "ACME" }] }, outPath);
+
+        assert.deepEqual(readdirSync(outPath).sort(), ["acme-2.md", "acme.md", "globex.md"]);
+        const acme = readFileSync(join(outPath, "acme.md"), "utf-8");
+        assert.match(acme, /^# Acme\n\nWebsite: acme\.example\n\n## Company Profile\n\nAcme makes anvils\./);
+        assert.match(acme, /### Jane Doe, CEO\n\nEmail: jane\.doe@acme\.example \(confidence 1\)/);
+        assert.match(acme, /#### Outreach Email, Variant B\n\n\*\*Subject:\*\* Short one/);
+        assert.match(
+            readFileSync(join(outPath, "globex.md"), "utf-8"),
+            /_No contacts found\._[\s\S]*## Failures\n\n- company-contacts: Agent run failed/,
+        );
+    });
+});
@@ -0,0 +1,335 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { extname, join } from "path";
+
+import { Lead, formatDelimited } from "./leads.js";
+import { OutreachEmail } from "./outreach-email.js";
+import { StageFailure } from "./pipeline.js";
+import { UsageSummary } from "./usage.js";
+
+// Types for writing pipeline results in the layouts other tools import
+export type PipelineResults = {
+    leads: Lead[];
+    failures: StageFailure[];
+    // Partial results of an interrupted run
+    cancelled?: boolean;
+    // Agent runs made by the run, with their duration, tokens and cost
+    usage?: UsageSummary;
+    // Stage outputs by output name, e.g. companyProfiles or outreachEmails
+    [output: string]: unknown;
+};
+
+// Everything known about one contact, joined across the stage outputs
+export type ContactRecord = {
+    company: string;
+    domain?: string;
+    companyProfile?: string;
+    // Unset for companies without contacts, so every lead is listed
+    contact?: string;
+    role?: string;
+    email?: string;
+    confidence?: number;
+    contactProfile?: string;
+    emails: OutreachEmail[];
+};
+
+export type OutputWriter = {
+    description: string;
+    // File extension of the default output path, "" for writers that create a directory
+    extension: string;
+    write(results: PipelineResults, outPath: string): void;
+};
+
+type OutputEntry = Record<string, unknown> & { company?: string; contact?: string };
+
+/**
+ * The entries of a stage output, empty when the pipeline has no output of that name
+ */
+function outputEntries(results: PipelineResults, name: string): OutputEntry[] {
+    const entries = results[name];
+    return Array.isArray(entries) ? (entries as OutputEntry[]) : [];
+}
+
+function text(value: unknown): string | undefined {
+    return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Read a JSON results file written by a pipeline run
+ */
+export function loadResults(filePath: string): PipelineResults {
+    const results = JSON.parse(readFileSync(filePath, "utf-8")) as Partial<PipelineResults>;
+    if (!Array.isArray(results.leads)) {
+        throw new Error(`${filePath} is not a results file, it has no leads`);
+    }
+    return { ...results, leads: results.leads, failures: results.failures ?? [] };
+}
+
+/**
+ * Where the JSON results go next to the results of another format, e.g. `leads.json` for `leads.csv`
+ * or `briefings.json` for a `briefings` directory
+ */
+export function jsonResultsPathFor(outputPath: string): string {
+    const base = outputPath.slice(0, outputPath.length - extname(outputPath).length);
+    return `${base}${extname(outputPath) === ".json" ? ".results" : ""}.json`;
+}
+
+/**
+ * Join the outputs of the outreach pipeline (companyProfiles, verifiedContacts or companyContacts,
+ * contactProfiles and outreachEmails) into one record per contact
+ */
+export function contactRecords(results: PipelineResults): ContactRecord[] {
+    const byCompany = (name: string) =>
+        new Map(outputEntries(results, name).map((entry) => [String(entry.company), entry]));
+    const byContact = (name: string) =>
+        new Map(outputEntries(results, name).map((entry) => [`${entry.company}/${entry.contact}`, entry]));
+
+    const companyProfiles = byCompany("companyProfiles");
+    const verifiedContacts = byCompany("verifiedContacts");
+    const companyContacts = byCompany("companyContacts");
+    const contactProfiles = byContact("contactProfiles");
+    const outreachEmails = byContact("outreachEmails");
+
+    return results.leads.flatMap((lead): ContactRecord[] => {
+        const company = lead.company;
+        const contactsEntry = verifiedContacts.get(company) ?? companyContacts.get(company);
+        const base = {
+            company,
+            domain: text(lead.domain) ?? text(contactsEntry?.domain),
+            companyProfile: text(companyProfiles.get(company)?.content),
+        };
+
+        const contacts = Array.isArray(contactsEntry?.contacts)
+            ? (contactsEntry.contacts as Record<string, unknown>[])
+            : [];
+        if (contacts.length === 0) {
+            return [{ ...base, emails: [] }];
+        }
+
+        return contacts.map((contact) => {
+            const name = String(contact.name ?? "");
+            const outreach = outreachEmails.get(`${company}/${name}`);
+            return {
+                ...base,
+                contact: name,
+                role: text(contact.role),
+                email: text(contact.email),
+                confidence: typeof contact.confidence === "number" ? contact.confidence : undefined,
+                contactProfile: text(contactProfiles.get(`${company}/${name}`)?.content),
+                emails: Array.isArray(outreach?.variants) ? (outreach.variants as OutreachEmail[]) : [],
+            };
+        });
+    });
+}
+
+/**
+ * Split a full name for CRMs that store first and last names separately
+ */
+function splitName(name: string): { first: string; last: string } {
+    const parts = name.trim().split(/\s+/);
+    return parts.length > 1 ? { first: parts.slice(0, -1).join(" "), last: parts.at(-1)! } : { first: "", last: name };
+}
+
+function writeCsv(outPath: string, header: string[], rows: (string | number | undefined)[][]): void {
+    const cells = rows.map((row) => row.map((value) => (value === undefined ? "" : String(value))));
+    writeFileSync(outPath, formatDelimited([header, ...cells]), "utf-8");
+}
+
+function slug(value: string): string {
+    return (
+        value
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-+|-+$/g, "") || "company"
+    );
+}
+
+/**
+ * A briefing document for one company: its profile, then every contact with their profile and emails
+ */
+function companyBriefing(company: string, records: ContactRecord[], failures: StageFailure[]): string {
+    const [first] = records;
+    const lines = [`# ${company}`, ""];
+    if (first?.domain) {
+        lines.push(`Website: ${first.domain}`, "");
+    }
+    lines.push("## Company Profile", "", first?.companyProfile ?? "_No profile._", "");
+
+    const contacts = records.filter((record) => record.contact);
+    lines.push("## Contacts", "");
+    if (contacts.length === 0) {
+        lines.push("_No contacts found._", "");
+    }
+    for (const record of contacts) {
+        lines.push(`### ${record.contact}${record.role ? `, ${record.role}` : ""}`, "");
+        if (record.email) {
+            const confidence = record.confidence === undefined ? "" : ` (confidence ${record.confidence})`;
+            lines.push(`Email: ${record.email}${confidence}`, "");
+        }
+        if (record.contactProfile) {
+            lines.push(record.contactProfile, "");
+        }
+        for (const email of record.emails) {
+            lines.push(`#### Outreach Email, Variant ${email.variant}`, "", `**Subject:** ${email.subject}`, "");
+            lines.push(email.body, "");
+        }
+    }
+
+    if (failures.length > 0) {
+        lines.push("## Failures", "");
+        failures.forEach((failure) =>
+            lines.push(`- ${failure.stage}${failure.item ? ` (${failure.item})` : ""}: ${failure.error}`),
+        );
+        lines.push("");
+    }
+    return lines.join("\n");
+}
+
+const jsonWriter: OutputWriter = {
+    description: "All stage outputs in one JSON document, as read by `drafts push`",
+    extension: ".json",
+    write(results, outPath) {
+        writeFileSync(outPath, JSON.stringify(results, null, 2), "utf-8");
+    },
+};
+
+const jsonlWriter: OutputWriter = {
+    description: "One JSON line per contact with every email variant",
+    extension: ".jsonl",
+    write(results, outPath) {
+        const lines = contactRecords(results).map((record) => JSON.stringify(record));
+        writeFileSync(outPath, lines.map((line) => `${line}\n`).join(""), "utf-8");
+    },
+};
+
+const csvWriter: OutputWriter = {
+    description: "One row per contact with the company profile, contact profile and first email variant",
+    extension: ".csv",
+    write(results, outPath) {
+        writeCsv(
+            outPath,
+            [
+                "company",
+                "domain",
+                "contact",
+                "role",
+                "email",
+                "confidence",
+                "company_profile",
+                "contact_profile",
+                "email_variant",
+                "email_subject",
+                "email_body",
+            ],
+            contactRecords(results).map((record) => [
+                record.company,
+                record.domain,
+                record.contact,
+                record.role,
+                record.email,
+                record.confidence,
+                record.companyProfile,
+                record.contactProfile,
+                record.emails[0]?.variant,
+                record.emails[0]?.subject,
+                record.emails[0]?.body,
+            ]),
+        );
+    },
+};
+
+const hubspotWriter: OutputWriter = {
+    description: "HubSpot contact import, one row per contact with an email address",
+    extension: ".csv",
+    write(results, outPath) {
+        writeCsv(
+            outPath,
+            [
+                "First Name",
+                "Last Name",
+                "Email",
+                "Job Title",
+                "Company Name",
+                "Website URL",
+                "Outreach Subject",
+                "Outreach Email",
+            ],
+            contactRecords(results)
+                .filter((record) => record.contact && record.email)
+                .map((record) => {
+                    const { first, last } = splitName(record.contact!);
+                    return [
+                        first,
+                        last,
+                        record.email,
+                        record.role,
+                        record.company,
+                        record.domain,
+                        record.emails[0]?.subject,
+                        record.emails[0]?.body,
+                    ];
+                }),
+        );
+    },
+};
+
+const salesforceWriter: OutputWriter = {
+    description: "Salesforce lead import, one row per contact with the contact profile as description",
+    extension: ".csv",
+    write(results, outPath) {
+        writeCsv(
+            outPath,
+            ["First Name", "Last Name", "Title", "Company", "Email", "Website", "Lead Source", "Description"],
+            contactRecords(results)
+                .filter((record) => record.contact)
+                .map((record) => {
+                    const { first, last } = splitName(record.contact!);
+                    return [
+                        first,
+                        last,
+                        record.role,
+                        record.company,
+                        record.email,
+                        record.domain,
+                        "Outbound Research",
+                        record.contactProfile,
+                    ];
+                }),
+        );
+    },
+};
+
+const markdownWriter: OutputWriter = {
+    description: "A directory with one Markdown briefing per company",
+    extension: "",
+    write(results, outPath) {
+        mkdirSync(outPath, { recursive: true });
+        const records = contactRecords(results);
+        const used = new Set<string>();
+        for (const lead of results.leads) {
+            let name = slug(lead.company);
+            for (let suffix = 2; used.has(name); suffix++) {
+                name = `${slug(lead.company)}-${suffix}`;
+            }
+            used.add(name);
+
+            const briefing = companyBriefing(
+                lead.company,
+                records.filter((record) => record.company === lead.company),
+                results.failures.filter((failure) => failure.company === lead.company),
+            );
+            writeFileSync(join(outPath, `${name}.md`), briefing, "utf-8");
+        }
+    },
+};
+
+/**
+ * Output writers by the name `--format` selects them with
+ */
+export const OUTPUT_WRITERS: Record<string, OutputWriter> = {
+    json: jsonWriter,
+    jsonl: jsonlWriter,
+    csv: csvWriter,
+    hubspot: hubspotWriter,
+    salesforce: salesforceWriter,
+    markdown: markdownWriter,
+};
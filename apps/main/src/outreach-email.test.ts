@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseOutreachEmails } from "./outreach-email.js";
+
+describe("parseOutreachEmails", () => {
+    it("reads structured emails", () => {
+        const emails = parseOutreachEmails({
+            emails: [
+                {
+                    subject: "Your Series B",
+                    body: "Hi Jane,\nCongratulations! Could we talk next week?\nBest",
+                    html: "<p>Hi Jane</p>",
+                    personalizationNotes: ["Series B", " ", "Hiring data engineers"],
+                },
+                { subject: "Quick one", text: "Hi Jane, short version.", callToAction: "Reply yes" },
+            ],
+        });
+
+        assert.deepEqual(emails, [
+            {
+                variant: "A",
+                subject: "Your Series B",
+                body: "Hi Jane,\nCongratulations! Could we talk next week?\nBest",
+                html: "<p>Hi Jane</p>",
+                callToAction: "Could we talk next week?",
+                personalizationNotes: ["Series B", "Hiring data engineers"],
+            },
+            {
+                variant: "B",
+                subject: "Quick one",
+                body: "Hi Jane, short version.",
+                html: undefined,
+                callToAction: "Reply yes",
+                personalizationNotes: [],
+            },
+        ]);
+    });
+
+    it("reads free text with subject lines and variant headings", () => {
+        const emails = parseOutreachEmails(
+            "**Subject:** Quick question\n\nHi Jane,\n\nCould we talk next week?\n\n" +
+                "### Variant B: shorter\n\nSubject line: Another idea\n\nHello Jane,\nShort one.",
+        );
+
+        assert.deepEqual(
+            emails.map(({ variant, subject, body }) => ({ variant, subject, body })),
+            [
+                { variant: "A", subject: "Quick question", body: "Hi Jane,\n\nCould we talk next week?" },
+                { variant: "B", subject: "Another idea", body: "Hello Jane,\nShort one." },
+            ],
+        );
+    });
+
+    it("takes a short first line as the subject and reads JSON given as text", () => {
+        const [email] = parseOutreachEmails({ result: "Scaling your data team\n\nHi Jane,\nWant to chat?" });
+        assert.equal(email?.subject, "Scaling your data team");
+        assert.equal(email?.callToAction, "Want to chat?");
+
+        const [json] = parseOutreachEmails('{"subject": "From JSON", "body": "Hi"}');
+        assert.equal(json?.subject, "From JSON");
+    });
+
+    it("rejects emails without a subject or body", () => {
+        assert.throws(() => parseOutreachEmails("Hi Jane,\n\nWant to chat?"), /variant A has no subject line/);
+        assert.throws(
+            () => parseOutreachEmails("Subject: One\n\nHi\n---\nHi again, no subject"),
+            /variant B has no subject line/,
+        );
+        assert.throws(() => parseOutreachEmails({ subject: "Only a subject" }), /needs a subject and a body/);
+        assert.throws(() => parseOutreachEmails({ emails: [] }), /returned no emails/);
+        assert.throws(() => parseOutreachEmails({ status: "done" }), /contains no email/);
+    });
+});
@@ -0,0 +1,154 @@
+// Types for outreach emails
+export type OutreachEmail = {
+    // A, B, C, ... in the order the agent returned the variants
+    variant: string;
+    subject: string;
+    body: string;
+    html?: string;
+    callToAction?: string;
+    // What the email was personalized with, for the reviewer
+    personalizationNotes: string[];
+};
+
+// e.g. "Subject: ...", "**Subject:** ..." or "Subject line: ..."
+const SUBJECT_LINE = /^\s*(?:\*\*|__)?subject(?:\s+line)?(?:\*\*|__)?\s*:\s*(?:\*\*|__)?\s*(.+)$/im;
+// Lines separating variants in free text, e.g. "Variant B", "### Email 2" or "Option 3: short and direct"
+const VARIANT_HEADING =
+    /^\s*(?:#+\s*)?(?:\*\*)?(?:variant|version|option|email)\s+(?:[a-z]|\d+)(?:\*\*)?(?:\s*[:\-–].*)?\s*$/gim;
+const GREETING = /^(?:hi|hello|hey|dear|good (?:morning|afternoon))\b/i;
+const MAX_SUBJECT_LENGTH = 120;
+
+function text(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function variantName(index: number): string {
+    return String.fromCharCode("A".charCodeAt(0) + index);
+}
+
+/**
+ * The last question in a body, which is where emails usually put their call to action
+ */
+function findCallToAction(body: string): string | undefined {
+    const questions = body.match(/[^.!?\n]+\?/g);
+    return questions?.at(-1)?.trim();
+}
+
+/**
+ * Split free text into one chunk per variant
+ */
+function splitVariants(content: string): string[] {
+    const chunks = content
+        .split(VARIANT_HEADING)
+        .flatMap((chunk) => chunk.split(/^\s*(?:---+|\*\*\*+)\s*$/m))
+        .map((chunk) => chunk.trim())
+        .filter(Boolean);
+    return chunks.length > 0 ? chunks : [content];
+}
+
+/**
+ * Parse a free-text email, taking the subject from a `Subject:` line or a short first line
+ */
+function parseFreeText(content: string, variant: string): OutreachEmail {
+    let body = content.replace(/^```\w*\n?|\n?```$/g, "").trim();
+    let subject: string | undefined;
+
+    const subjectLine = body.match(SUBJECT_LINE);
+    if (subjectLine) {
+        subject = subjectLine[1]!.replace(/\*\*|__/g, "").trim();
+        body = body.replace(subjectLine[0], "").trim();
+    } else {
+        const [firstParagraph, ...rest] = body.split(/\n\s*\n/);
+        const firstLine = firstParagraph?.trim() ?? "";
+        if (
+            rest.length > 0 &&
+            !firstLine.includes("\n") &&
+            firstLine.length <= MAX_SUBJECT_LENGTH &&
+            !GREETING.test(firstLine)
+        ) {
+            subject = firstLine.replace(/^#+\s*/, "");
+            body = rest.join("\n\n").trim();
+        }
+    }
+
+    if (!subject) {
+        throw new Error(`Email variant ${variant} has no subject line`);
+    }
+    if (!body) {
+        throw new Error(`Email variant ${variant} has no body`);
+    }
+    return { variant, subject, body, callToAction: findCallToAction(body), personalizationNotes: [] };
+}
+
+/**
+ * Read an email the agent returned as an object
+ */
+function parseStructured(value: Record<string, unknown>, variant: string): OutreachEmail {
+    const subject = text(value.subject);
+    const body = text(value.body) ?? text(value.text);
+    if (!subject || !body) {
+        throw new Error(`Email variant ${variant} needs a subject and a body`);
+    }
+
+    const notes = value.personalizationNotes;
+    return {
+        variant,
+        subject,
+        body,
+        html: text(value.html),
+        callToAction: text(value.callToAction) ?? findCallToAction(body),
+        personalizationNotes: Array.isArray(notes)
+            ? notes.map((note) => text(note)).filter((note): note is string => Boolean(note))
+            : text(notes)
+              ? [text(notes)!]
+              : [],
+    };
+}
+
+/**
+ * Parse the result of an outreach agent into email variants. Accepts `{ emails: [...] }`,
+ * a single `{ subject, body }` object, and free text in `result` (JSON or a plain email
+ * with a `Subject:` line, variants separated by headings such as "Variant B" or `---`).
+ */
+export function parseOutreachEmails(result: unknown): OutreachEmail[] {
+    if (typeof result === "string") {
+        const trimmed = result.trim();
+        if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+            try {
+                return parseOutreachEmails(JSON.parse(trimmed));
+            } catch (error) {
+                if (!(error instanceof SyntaxError)) {
+                    throw error;
+                }
+                // Not JSON after all, read it as text
+            }
+        }
+        return splitVariants(trimmed).map((chunk, index) => parseFreeText(chunk, variantName(index)));
+    }
+
+    if (Array.isArray(result)) {
+        if (result.length === 0) {
+            throw new Error("The agent returned no emails");
+        }
+        return result.map((email, index) =>
+            typeof email === "string"
+                ? parseFreeText(email, variantName(index))
+                : parseStructured((email ?? {}) as Record<string, unknown>, variantName(index)),
+        );
+    }
+
+    if (result && typeof result === "object") {
+        const value = result as Record<string, unknown>;
+        if (value.emails !== undefined) {
+            return parseOutreachEmails(value.emails);
+        }
+        if (value.subject !== undefined) {
+            return [parseStructured(value, variantName(0))];
+        }
+        if (value.result !== undefined) {
+            return parseOutreachEmails(value.result);
+        }
+    }
+
+    throw new Error("The agent result contains no email");
+}
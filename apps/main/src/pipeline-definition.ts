@@ -0,0 +1,285 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { durationSchema } from "./duration.js";
+import { formatIssues } from "./json-schema.js";
+import { LOCAL_STEPS } from "./local-steps.js";
+
+const STAGE_ID_PATTERN = /^[a-z][a-z0-9-_]*$/i;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const SOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+// Names that templates resolve from the item context rather than from stage results
+const RESERVED_NAMES = ["lead"];
+
+const stageSchema = z
+    .object({
+        id: z.string().regex(STAGE_ID_PATTERN, "Stage IDs may only contain letters, digits, - and _"),
+        // Named agent, resolved to an agent ID through the configuration
+        agent: z.string().optional(),
+        // Literal agent ID
+        agentId: z.string().optional(),
+        // Built-in step that runs locally instead of an agent, e.g. verify-contacts
+        step: z.string().optional(),
+        // Settings of the step
+        options: z.record(z.string(), z.unknown()).optional(),
+        // Run once per element of an array in an earlier stage's result instead of once per lead
+        forEach: z
+            .object({
+                from: z.string(),
+                as: z.string().regex(STAGE_ID_PATTERN),
+                key: z.string().optional(),
+            })
+            .optional(),
+        // Stages that must have succeeded for an item even though its input does not reference them
+        needs: z.array(z.string()).default([]),
+        // Pass every column of the lead file to the agent next to the mapped input
+        includeLeadFields: z.boolean().default(false),
+        input: z.record(z.string(), z.unknown()),
+        // How long to wait for a run, e.g. 10m, instead of the configured default (0 = no limit)
+        timeout: durationSchema.optional(),
+        // Reuse the results of earlier runs of the same agent for the same input, from the result
+        // cache (see RESULT_CACHE_TTL) and, with --reuse-runs, from the server
+        cache: z.boolean().default(true),
+        // In incremental mode (--stale-after/--since), run again for every lead instead of keeping
+        // results that have not gone stale, e.g. to discover new contacts
+        rerun: z.boolean().default(false),
+        // JSON Schemas runs are checked against, a violation fails the item
+        schema: z
+            .object({
+                // Defaults to the agent's own inputSchema, false turns input checks off
+                input: z.union([z.literal(false), z.record(z.string(), z.unknown())]).optional(),
+                output: z.record(z.string(), z.unknown()).optional(),
+                // Run an item again up to this many times when its result does not match the output schema
+                retries: z.number().int().min(0).default(0),
+            })
+            .optional(),
+        // How the stage's results appear in the results file, false leaves them out
+        output: z
+            .union([
+                z.literal(false),
+                z.object({
+                    name: z.string(),
+                    fields: z.record(z.string(), z.unknown()),
+                }),
+            ])
+            .optional(),
+    })
+    .refine((stage) => [stage.agent, stage.agentId, stage.step].filter(Boolean).length === 1, {
+        message: "A stage needs exactly one of agent, agentId or step",
+    });
+
+const pipelineSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    stages: z.array(stageSchema).min(1),
+});
+
+export type StageDefinition = z.infer<typeof stageSchema>;
+export type PipelineDefinition = z.infer<typeof pipelineSchema>;
+
+/**
+ * Split a template path such as `contact-profile.result` into its parts
+ */
+function splitPath(path: string): string[] {
+    return path.split(".").map((part) => part.trim());
+}
+
+/**
+ * Read a value at a template path, e.g. `company-contacts.contacts`
+ */
+export function getPath(context: Record<string, unknown>, path: string): unknown {
+    let value: unknown = context;
+    for (const part of splitPath(path)) {
+        if (value === null || typeof value !== "object") {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+}
+
+/**
+ * Render `{{path}}` placeholders in a value. A string made of a single placeholder
+ * keeps the referenced value as is (objects, arrays, numbers), otherwise values are
+ * interpolated as text. Objects and arrays are rendered recursively.
+ */
+export function renderTemplate(template: unknown, context: Record<string, unknown>): unknown {
+    if (typeof template === "string") {
+        const sole = template.match(SOLE_PLACEHOLDER_PATTERN);
+        if (sole) {
+            return getPath(context, sole[1]!);
+        }
+        return template.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+            const value = getPath(context, path);
+            if (value === undefined || value === null) {
+                return "";
+            }
+            return typeof value === "object" ? JSON.stringify(value) : String(value);
+        });
+    }
+    if (Array.isArray(template)) {
+        return template.map((item) => renderTemplate(item, context));
+    }
+    if (template && typeof template === "object") {
+        return Object.fromEntries(
+            Object.entries(template).map(([key, value]) => [key, renderTemplate(value, context)]),
+        );
+    }
+    return template;
+}
+
+/**
+ * Collect the root names referenced by placeholders in a value
+ */
+export function templateRoots(template: unknown): string[] {
+    if (typeof template === "string") {
+        return [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => splitPath(match[1]!)[0]!);
+    }
+    if (Array.isArray(template)) {
+        return template.flatMap(templateRoots);
+    }
+    if (template && typeof template === "object") {
+        return Object.values(template).flatMap(templateRoots);
+    }
+    return [];
+}
+
+/**
+ * The stage a `forEach.from` path reads from
+ */
+export function forEachSource(stage: StageDefinition): string | undefined {
+    return stage.forEach ? splitPath(stage.forEach.from)[0] : undefined;
+}
+
+/**
+ * All stages a stage has to wait for
+ */
+export function stageDependencies(stage: StageDefinition, stageIds: Set<string>): string[] {
+    const roots = [
+        ...templateRoots(stage.input),
+        ...templateRoots(stage.forEach?.key),
+        ...templateRoots(stage.output && stage.output.fields),
+        ...stage.needs,
+    ];
+    const source = forEachSource(stage);
+    if (source) {
+        roots.push(source);
+    }
+    return [...new Set(roots.filter((root) => stageIds.has(root) && root !== stage.id))];
+}
+
+/**
+ * Check references, fan-out scopes and dependency cycles
+ */
+function validatePipeline(pipeline: PipelineDefinition): void {
+    const stages = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+    const stageIds = new Set(stages.keys());
+
+    if (stages.size !== pipeline.stages.length) {
+        throw new Error("Stage IDs must be unique");
+    }
+
+    for (const stage of pipeline.stages) {
+        const fail = (message: string) => {
+            throw new Error(`Stage "${stage.id}": ${message}`);
+        };
+
+        if (RESERVED_NAMES.includes(stage.id)) {
+            fail(`"${stage.id}" is a reserved name`);
+        }
+
+        if (stage.step) {
+            const step = LOCAL_STEPS[stage.step];
+            if (!step) {
+                fail(`unknown step "${stage.step}", expected one of ${Object.keys(LOCAL_STEPS).join(", ")}`);
+            }
+            const options = step!.options.safeParse(stage.options ?? {});
+            if (!options.success) {
+                fail(`invalid options: ${formatIssues(options.error)}`);
+            }
+            if (stage.timeout !== undefined || stage.schema) {
+                fail("timeout and schema only apply to agent stages");
+            }
+        } else if (stage.options) {
+            fail("options only apply to step stages");
+        }
+
+        const source = forEachSource(stage);
+        if (stage.forEach) {
+            const sourceStage = source ? stages.get(source) : undefined;
+            if (!sourceStage) {
+                fail(`forEach source "${stage.forEach.from}" does not name a stage`);
+            } else if (sourceStage.forEach) {
+                fail("nested fan-out is not supported, forEach must read from a per-lead stage");
+            }
+            if (RESERVED_NAMES.includes(stage.forEach.as) || stageIds.has(stage.forEach.as)) {
+                fail(`forEach alias "${stage.forEach.as}" clashes with a stage or reserved name`);
+            }
+        }
+
+        const knownNames = new Set([...stageIds, ...RESERVED_NAMES, stage.id]);
+        if (stage.forEach) {
+            knownNames.add(stage.forEach.as);
+        }
+        for (const root of [...templateRoots(stage.input), ...templateRoots(stage.output && stage.output.fields)]) {
+            if (!knownNames.has(root)) {
+                fail(`unknown reference "${root}"`);
+            }
+        }
+        for (const need of stage.needs) {
+            if (!stageIds.has(need)) {
+                fail(`needs unknown stage "${need}"`);
+            }
+        }
+
+        // A stage can only use results of per-lead stages or of stages fanning out over the same array
+        for (const dependency of stageDependencies(stage, stageIds)) {
+            const dependencyStage = stages.get(dependency)!;
+            if (
+                dependencyStage.forEach &&
+                (dependencyStage.forEach.from !== stage.forEach?.from ||
+                    dependencyStage.forEach.as !== stage.forEach?.as)
+            ) {
+                fail(`cannot use "${dependency}", it fans out over a different array`);
+            }
+        }
+    }
+
+    // Detect cycles with a depth-first search
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (id: string, path: string[]) => {
+        if (visiting.has(id)) {
+            throw new Error(`Stage dependency cycle: ${[...path, id].join(" -> ")}`);
+        }
+        if (visited.has(id)) {
+            return;
+        }
+        visiting.add(id);
+        stageDependencies(stages.get(id)!, stageIds).forEach((dependency) => visit(dependency, [...path, id]));
+        visiting.delete(id);
+        visited.add(id);
+    };
+    stageIds.forEach((id) => visit(id, []));
+}
+
+/**
+ * Load and validate a pipeline definition from a YAML or JSON file
+ */
+export function loadPipeline(filePath: string): PipelineDefinition {
+    const content = readFileSync(filePath, "utf-8");
+    const extension = extname(filePath).toLowerCase();
+    const raw = extension === ".json" ? JSON.parse(content) : parseYaml(content);
+
+    const result = pipelineSchema.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`);
+        throw new Error(`Invalid pipeline definition ${filePath}:\n${issues.join("\n")}`);
+    }
+
+    validatePipeline(result.data);
+    return result.data;
+}
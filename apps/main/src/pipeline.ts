@@ -0,0 +1,700 @@
+import { AgDevClient, AgDevTimeoutError, AgentRun } from "./ag-dev.js";
+import { Agent, AgentRunResult, AgentSchemas, FailureKind } from "./agent.js";
+import { jsonSchemaToZod } from "./json-schema.js";
+import { Lead } from "./leads.js";
+import { LOCAL_STEPS, LocalStep } from "./local-steps.js";
+import {
+    PipelineDefinition,
+    StageDefinition,
+    forEachSource,
+    getPath,
+    renderTemplate,
+    stageDependencies,
+} from "./pipeline-definition.js";
+import { ResultCache } from "./result-cache.js";
+import { Checkpoint, RunStore } from "./run-store.js";
+import { UsageTracker } from "./usage.js";
+
+// Types for pipeline execution
+export type StageFailure = {
+    stage: string;
+    company: string;
+    // Fan-out item the failure belongs to, e.g. the contact name
+    item?: string;
+    runId?: string;
+    // Whether the run failed or its input or result did not match the stage schema
+    kind: FailureKind;
+    error: string;
+};
+
+export type StageSummary = {
+    stage: string;
+    total: number;
+    done: number;
+    failed: number;
+    // Done items answered from the result cache
+    cached: number;
+    // Done items answered by an earlier run with the same input on the server
+    reused: number;
+    // Done items kept from an earlier pipeline run because they had not gone stale
+    unchanged: number;
+    // Items left out because a stage they depend on failed for them
+    skipped: number;
+    // Items that were not started or still running when the pipeline was cancelled, or not
+    // started because the usage budget was reached, including items waiting on such items
+    cancelled: number;
+};
+
+export type PipelineResult = {
+    outputs: Record<string, Record<string, unknown>[]>;
+    failures: StageFailure[];
+    stages: StageSummary[];
+    // Whether the signal was aborted, the results are partial then
+    cancelled: boolean;
+};
+
+// Progress of a pipeline run, for dashboards and event followers
+export type PipelineEvent =
+    | {
+          type: "stage-started";
+          stage: string;
+          // Agent the stage runs, `step:<name>` for local steps
+          agentId: string;
+          // Items the stage runs for
+          items: { key: string; company: string; item?: string }[];
+          // Items left out because a stage they depend on failed for them
+          skipped: number;
+      }
+    | {
+          type: "item-updated";
+          stage: string;
+          agentId: string;
+          key: string;
+          company: string;
+          item?: string;
+          // "pending" until a run has been started for the item
+          status: Checkpoint["status"];
+          runId?: string;
+      }
+    | { type: "stage-finished"; stage: string };
+
+// Result of a stage run for a single item with runStageItem
+export type StageItemResult =
+    | { status: "done"; resultData: Record<string, unknown>; runId?: string; cached?: boolean; reused?: boolean }
+    | { status: "error"; error: string; errorKind: FailureKind; runId?: string };
+
+export type PipelineOptions = {
+    client: AgDevClient;
+    store: RunStore;
+    // Named agent to agent ID mapping used for stages with `agent`
+    agentIds: Record<string, string>;
+    // Maximum number of runs in flight per stage
+    concurrency?: number;
+    // Milliseconds to wait for a run of a stage without its own timeout, 0 = no limit
+    timeout?: number;
+    // Answers runs from earlier results of the same agent and input, unless a stage opts out
+    cache?: ResultCache;
+    // Answers runs with earlier successful runs of the same agent with an identical input on the
+    // server, if they are at most `maxAge` milliseconds old (0 = any age)
+    reuseRuns?: { maxAge: number };
+    // Stages whose runs are not answered from the cache or reused, their new results are still cached
+    refresh?: string[];
+    // Result of an earlier pipeline run for an item of an agent stage, if it is recent enough to keep
+    // instead of running the item again (incremental mode). Not asked for stages with `rerun`.
+    previousResult?: (
+        stage: string,
+        item: { company: string; item?: string; input: StageInput },
+    ) => StageOutput | undefined;
+    // Records the runs the pipeline makes, no new runs are started once its budget is reached
+    usage?: UsageTracker;
+    // Stops starting and waiting for runs. Runs in flight keep going on the server and are
+    // re-attached when the pipeline is resumed.
+    signal?: AbortSignal;
+    onEvent?: (event: PipelineEvent) => void;
+    // Where progress messages go, defaults to the console
+    log?: (message: string) => void;
+};
+
+type StageInput = Record<string, unknown>;
+type StageOutput = Record<string, unknown>;
+
+type StageItem = {
+    key: string;
+    input: StageInput;
+};
+
+// A lead, or one element of an array a fan-out stage iterates over
+type Scope = {
+    key: string;
+    lead: Lead;
+    // Fan-out element key, e.g. the contact name
+    item?: string;
+    context: Record<string, unknown>;
+};
+
+type ScopedResult = {
+    context: Record<string, unknown>;
+    checkpoint: Checkpoint<StageInput, StageOutput>;
+};
+
+/**
+ * Run an agent for every stage item that has not finished in an earlier attempt.
+ * Runs are checkpointed as soon as they start and again when they complete,
+ * so resuming re-attaches to in-flight and timed out runs instead of paying for them twice.
+ * When the signal is aborted, items that were not started are returned as "pending".
+ */
+async function runStage(
+    store: RunStore,
+    stage: string,
+    agent: Agent<StageInput, StageOutput>,
+    items: StageItem[],
+    options: {
+        concurrency?: number;
+        outputRetries?: number;
+        timeout?: number;
+        signal?: AbortSignal;
+        canStartRun?: () => boolean | Promise<boolean>;
+        onPoll?: (run: AgentRun) => void;
+        onUpdate?: (index: number, status: Checkpoint["status"], runId?: string) => void;
+        // Called for every run started, including retries of invalid results
+        onAttemptCompleted?: (index: number, result: AgentRunResult<StageInput, StageOutput>) => void;
+        log: (message: string) => void;
+    },
+): Promise<Checkpoint<StageInput, StageOutput>[]> {
+    const { concurrency, outputRetries, timeout, signal, canStartRun, onPoll, onUpdate, onAttemptCompleted, log } =
+        options;
+    const checkpoints = items.map((item) => store.load<StageInput, StageOutput>(stage, item.key));
+    const started = new Set<number>();
+
+    const record = (
+        index: number,
+        runId: string | undefined,
+        status: Checkpoint["status"],
+        result: Pick<
+            Checkpoint<StageInput, StageOutput>,
+            "resultData" | "error" | "errorKind" | "cached" | "reused"
+        > = {},
+    ) => {
+        const item = items[index]!;
+        started.add(index);
+        checkpoints[index] = store.save<StageInput, StageOutput>(stage, {
+            key: item.key,
+            input: item.input,
+            status,
+            runId: runId || undefined,
+            resultData: result.resultData,
+            error: result.error,
+            errorKind: result.errorKind,
+            cached: result.cached,
+            reused: result.reused,
+        });
+        onUpdate?.(index, status, runId || undefined);
+    };
+
+    const inFlight: number[] = [];
+    const pending: number[] = [];
+    checkpoints.forEach((checkpoint, index) => {
+        if (checkpoint?.status === "done") {
+            onUpdate?.(index, "done", checkpoint.runId);
+            return;
+        }
+        const unfinished = checkpoint?.status === "pending" || checkpoint?.status === "running";
+        if ((unfinished || checkpoint?.errorKind === "timeout") && checkpoint?.runId) {
+            inFlight.push(index);
+            onUpdate?.(index, "running", checkpoint.runId);
+        } else {
+            pending.push(index);
+            onUpdate?.(index, "pending");
+        }
+    });
+
+    const skipped = items.length - inFlight.length - pending.length;
+    if (skipped > 0) {
+        log(`  Skipping ${skipped} ${stage} item(s) finished in a previous attempt`);
+    }
+    if (inFlight.length > 0 && !signal?.aborted) {
+        log(`  Re-attaching to ${inFlight.length} in-flight ${stage} run(s)`);
+    }
+
+    try {
+        await Promise.all([
+            ...inFlight.map(async (index) => {
+                const runId = checkpoints[index]!.runId!;
+                try {
+                    const result = await agent.waitForRun(runId, { timeout, signal, onPoll });
+                    record(index, result.id, result.status, result);
+                    onAttemptCompleted?.(index, result);
+                } catch (error) {
+                    if (signal?.aborted) {
+                        throw error;
+                    }
+                    const message = error instanceof Error ? error.message : String(error);
+                    record(index, runId, "error", {
+                        error: message,
+                        errorKind: error instanceof AgDevTimeoutError ? "timeout" : "run",
+                    });
+                }
+            }),
+            pending.length > 0
+                ? agent.runBatch(
+                      pending.map((index) => items[index]!.input),
+                      {
+                          concurrency,
+                          outputRetries,
+                          timeout,
+                          signal,
+                          onPoll,
+                          canStartRun,
+                          onRunStarted: (runId, batchIndex) => record(pending[batchIndex]!, runId, "running"),
+                          onRunCompleted: (result, batchIndex) =>
+                              record(pending[batchIndex]!, result.id, result.status, result),
+                          onAttemptCompleted: (result, batchIndex) =>
+                              onAttemptCompleted?.(pending[batchIndex]!, result),
+                      },
+                  )
+                : Promise.resolve(),
+        ]);
+    } catch (error) {
+        if (!signal?.aborted) {
+            throw error;
+        }
+    }
+
+    // Items the cancelled pipeline, or the budget, never got to
+    pending
+        .filter((index) => !started.has(index))
+        .forEach((index) => (checkpoints[index] = pendingCheckpoint(items[index]!)));
+
+    return checkpoints as Checkpoint<StageInput, StageOutput>[];
+}
+
+/**
+ * Placeholder for an item a cancelled pipeline did not get to
+ */
+function pendingCheckpoint(item: StageItem): Checkpoint<StageInput, StageOutput> {
+    return { key: item.key, input: item.input, status: "pending", savedAt: new Date().toISOString() };
+}
+
+/**
+ * Run a local step for all stage items. Steps are cheap and may look across items, e.g. to
+ * dedupe contacts between leads, so they run again for every item when a pipeline is resumed.
+ */
+async function runLocalStage(
+    store: RunStore,
+    stage: string,
+    step: LocalStep,
+    items: StageItem[],
+    options: {
+        stepOptions?: Record<string, unknown>;
+        signal?: AbortSignal;
+        onUpdate?: (index: number, status: Checkpoint["status"]) => void;
+    },
+): Promise<Checkpoint<StageInput, StageOutput>[]> {
+    const { stepOptions, signal, onUpdate } = options;
+    if (signal?.aborted) {
+        return items.map(pendingCheckpoint);
+    }
+
+    items.forEach((_, index) => onUpdate?.(index, "running"));
+    let results;
+    try {
+        results = await step.run(items, stepOptions, signal);
+    } catch (error) {
+        if (signal?.aborted) {
+            return items.map(pendingCheckpoint);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        results = items.map(() => ({ status: "error" as const, error: message }));
+    }
+
+    return results.map((result, index) => {
+        const item = items[index]!;
+        const checkpoint = store.save<StageInput, StageOutput>(stage, {
+            key: item.key,
+            input: item.input,
+            ...(result.status === "done"
+                ? { status: "done", resultData: result.resultData }
+                : { status: "error", error: result.error, errorKind: "run" }),
+        });
+        onUpdate?.(index, result.status);
+        return checkpoint;
+    });
+}
+
+/**
+ * The agent ID a stage runs, `step:<name>` for local steps
+ */
+function resolveAgentId(stage: StageDefinition, agentIds: Record<string, string>): string {
+    if (stage.step) {
+        return `step:${stage.step}`;
+    }
+    const agentId = stage.agentId ?? agentIds[stage.agent!];
+    if (!agentId) {
+        throw new Error(`Stage "${stage.id}": no agent ID configured for agent "${stage.agent}"`);
+    }
+    return agentId;
+}
+
+/**
+ * Resolve the agent ID of every agent stage up front, so a typo fails before any run is paid for
+ */
+function resolveAgentIds(pipeline: PipelineDefinition, agentIds: Record<string, string>): Map<string, string> {
+    return new Map(pipeline.stages.map((stage) => [stage.id, resolveAgentId(stage, agentIds)]));
+}
+
+/**
+ * Create the agent of a stage with the schemas its runs are checked against
+ */
+async function loadStageAgent(
+    client: AgDevClient,
+    stage: StageDefinition,
+    agentId: string,
+    log: (message: string) => void,
+    signal?: AbortSignal,
+): Promise<Agent<StageInput, StageOutput>> {
+    const schemas: AgentSchemas<StageInput, StageOutput> = {};
+    if (stage.schema?.input) {
+        schemas.input = jsonSchemaToZod(stage.schema.input) as AgentSchemas<StageInput, StageOutput>["input"];
+    }
+    if (stage.schema?.output) {
+        schemas.output = jsonSchemaToZod(stage.schema.output) as AgentSchemas<StageInput, StageOutput>["output"];
+    }
+    if (stage.schema?.input === false) {
+        return new Agent(client, agentId, schemas);
+    }
+
+    try {
+        return await Agent.loadWithAgentSchema(client, agentId, schemas, { signal });
+    } catch (error) {
+        if (signal?.aborted) {
+            return new Agent(client, agentId, schemas);
+        }
+        // Runs will report the actual problem, e.g. an unknown agent
+        log(
+            `  Not checking ${stage.id} inputs, the agent could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return new Agent(client, agentId, schemas);
+    }
+}
+
+/**
+ * Run a pipeline for a list of leads. Every stage starts as soon as the stages it
+ * depends on are finished, and only receives the items all of them succeeded for.
+ */
+export async function runPipeline(
+    pipeline: PipelineDefinition,
+    leads: Lead[],
+    options: PipelineOptions,
+): Promise<PipelineResult> {
+    const { client, store, concurrency, usage, signal, onEvent, log = console.log } = options;
+    const agentIds = resolveAgentIds(pipeline, options.agentIds);
+    const stages = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+    const stageIds = new Set(stages.keys());
+
+    // Stage ID -> scope key -> result
+    const results = new Map<string, Map<string, ScopedResult>>();
+    const failures: StageFailure[] = [];
+    const summaries = new Map<string, StageSummary>();
+    // Item keys per stage that were not run because the pipeline was cancelled or the budget was
+    // reached, so items depending on them count as cancelled rather than skipped
+    const cancelledKeys = new Map<string, Set<string>>();
+
+    const leadScopes: Scope[] = leads.map((lead) => ({ key: lead.company, lead, context: { lead } }));
+
+    /**
+     * The items a stage runs for: one per lead, or one per element of its forEach array
+     */
+    const stageScopes = (stage: StageDefinition): Scope[] => {
+        const source = forEachSource(stage);
+        if (!stage.forEach || !source) {
+            return leadScopes;
+        }
+
+        const { from, as, key } = stage.forEach;
+        const scopes: Scope[] = [];
+        for (const leadScope of leadScopes) {
+            const sourceResult = results.get(source)?.get(leadScope.key);
+            if (sourceResult?.checkpoint.status !== "done") {
+                continue;
+            }
+
+            const elements = getPath({ [source]: sourceResult.checkpoint.resultData }, from);
+            if (!Array.isArray(elements)) {
+                continue;
+            }
+
+            const seen = new Set<string>();
+            elements.forEach((element, index) => {
+                const context = { lead: leadScope.lead, [as]: element };
+                const item = key ? String(renderTemplate(key, context)) : String(index);
+                if (seen.has(item)) {
+                    return;
+                }
+                seen.add(item);
+                scopes.push({ key: `${leadScope.key}/${item}`, lead: leadScope.lead, item, context });
+            });
+        }
+        return scopes;
+    };
+
+    const executeStage = async (stage: StageDefinition) => {
+        const dependencies = stageDependencies(stage, stageIds);
+        const runnable: { scope: Scope; context: Record<string, unknown> }[] = [];
+        const blocked = new Set<string>();
+        let skipped = 0;
+
+        const scopes = stageScopes(stage);
+        for (const scope of scopes) {
+            const context: Record<string, unknown> = { ...scope.context };
+            let status: "ready" | "skipped" | "cancelled" = "ready";
+            for (const dependency of dependencies) {
+                // Fan-out stages are joined on the same element, per-lead stages on the lead
+                const dependencyKey = stages.get(dependency)!.forEach ? scope.key : scope.lead.company;
+                const checkpoint = results.get(dependency)?.get(dependencyKey)?.checkpoint;
+                if (checkpoint?.status === "done") {
+                    context[dependency] = checkpoint.resultData;
+                } else if (checkpoint?.status === "error") {
+                    status = "skipped";
+                } else if (checkpoint || cancelledKeys.get(dependency)?.has(dependencyKey)) {
+                    status = status === "skipped" ? status : "cancelled";
+                } else {
+                    status = "skipped";
+                }
+            }
+            if (status === "ready") {
+                runnable.push({ scope, context });
+            } else if (status === "cancelled") {
+                blocked.add(scope.key);
+            } else {
+                skipped++;
+            }
+        }
+
+        if (!signal?.aborted) {
+            log(`Running ${stage.id} for ${runnable.length} item(s)...`);
+        }
+
+        const agentId = agentIds.get(stage.id)!;
+        onEvent?.({
+            type: "stage-started",
+            stage: stage.id,
+            agentId,
+            items: runnable.map(({ scope }) => ({ key: scope.key, company: scope.lead.company, item: scope.item })),
+            skipped,
+        });
+
+        const items = runnable.map(({ scope, context }) => {
+            const input = renderTemplate(stage.input, context) as StageInput;
+            return {
+                key: scope.key,
+                input: stage.includeLeadFields ? { ...scope.lead, ...input } : input,
+            };
+        });
+        const onUpdate = (index: number, status: Checkpoint["status"], runId?: string) => {
+            const { scope } = runnable[index]!;
+            onEvent?.({
+                type: "item-updated",
+                stage: stage.id,
+                agentId,
+                key: scope.key,
+                company: scope.lead.company,
+                item: scope.item,
+                status,
+                runId,
+            });
+        };
+
+        // Items with a result that has not gone stale are checkpointed as done, so they are not run
+        if (options.previousResult && !stage.step && !stage.rerun) {
+            items.forEach((item, index) => {
+                if (store.load(stage.id, item.key)) {
+                    return;
+                }
+                const { scope } = runnable[index]!;
+                const resultData = options.previousResult!(stage.id, {
+                    company: scope.lead.company,
+                    item: scope.item,
+                    input: item.input,
+                });
+                if (resultData) {
+                    store.save(stage.id, {
+                        key: item.key,
+                        input: item.input,
+                        status: "done",
+                        resultData,
+                        unchanged: true,
+                    });
+                }
+            });
+        }
+
+        let checkpoints: Checkpoint<StageInput, StageOutput>[];
+        if (stage.step) {
+            checkpoints = await runLocalStage(store, stage.id, LOCAL_STEPS[stage.step]!, items, {
+                stepOptions: stage.options,
+                signal,
+                onUpdate,
+            });
+        } else {
+            const agent = signal?.aborted
+                ? new Agent<StageInput, StageOutput>(client, agentId)
+                : await loadStageAgent(client, stage, agentId, log, signal);
+            const refresh = options.refresh?.includes(stage.id);
+            if (options.cache && stage.cache) {
+                agent.useCache(options.cache, { refresh });
+            }
+            if (options.reuseRuns && stage.cache && !refresh) {
+                agent.reuseRemoteRuns(options.reuseRuns);
+            }
+            checkpoints = await runStage(store, stage.id, agent, items, {
+                concurrency,
+                outputRetries: stage.schema?.retries,
+                timeout: stage.timeout ?? options.timeout,
+                signal,
+                log,
+                onUpdate,
+                canStartRun: usage && (() => usage.tryStartRun()),
+                onPoll: usage && ((run) => usage.runPolled(run.id)),
+                onAttemptCompleted:
+                    usage &&
+                    ((index, result) => {
+                        const { scope } = runnable[index]!;
+                        usage.runCompleted(result, {
+                            agentId,
+                            stage: stage.id,
+                            company: scope.lead.company,
+                            item: scope.item,
+                        });
+                    }),
+            });
+        }
+
+        const stageResults = new Map<string, ScopedResult>();
+        checkpoints.forEach((checkpoint, index) => {
+            const { scope, context } = runnable[index]!;
+            stageResults.set(scope.key, { context, checkpoint });
+
+            if (checkpoint.status === "pending" || checkpoint.status === "running") {
+                blocked.add(scope.key);
+            } else if (checkpoint.status === "error") {
+                failures.push({
+                    stage: stage.id,
+                    company: scope.lead.company,
+                    item: scope.item,
+                    runId: checkpoint.runId,
+                    kind: checkpoint.errorKind ?? "run",
+                    error: checkpoint.error ?? `Run ended with status "${checkpoint.status}"`,
+                });
+            }
+        });
+        results.set(stage.id, stageResults);
+        cancelledKeys.set(stage.id, blocked);
+
+        const count = (status: Checkpoint["status"]) =>
+            checkpoints.filter((checkpoint) => checkpoint.status === status).length;
+        const done = count("done");
+        const failed = count("error");
+        summaries.set(stage.id, {
+            stage: stage.id,
+            total: scopes.length,
+            done,
+            failed,
+            cached: checkpoints.filter((checkpoint) => checkpoint.status === "done" && checkpoint.cached).length,
+            reused: checkpoints.filter((checkpoint) => checkpoint.status === "done" && checkpoint.reused).length,
+            unchanged: checkpoints.filter((checkpoint) => checkpoint.status === "done" && checkpoint.unchanged).length,
+            skipped,
+            cancelled: blocked.size,
+        });
+        onEvent?.({ type: "stage-finished", stage: stage.id });
+    };
+
+    // Start every stage once all of its dependencies have finished
+    const started = new Map<string, Promise<void>>();
+    const start = (stage: StageDefinition): Promise<void> => {
+        let promise = started.get(stage.id);
+        if (!promise) {
+            promise = Promise.all(
+                stageDependencies(stage, stageIds).map((dependency) => start(stages.get(dependency)!)),
+            ).then(() => executeStage(stage));
+            started.set(stage.id, promise);
+        }
+        return promise;
+    };
+    await Promise.all(pipeline.stages.map(start));
+
+    // Shape the successful results of every stage for the output file
+    const outputs: Record<string, Record<string, unknown>[]> = {};
+    for (const stage of pipeline.stages) {
+        if (stage.output === false) {
+            continue;
+        }
+        const name = stage.output?.name ?? stage.id;
+        const fields = stage.output?.fields ?? { company: "{{lead.company}}", result: `{{${stage.id}}}` };
+        outputs[name] = [...(results.get(stage.id)?.values() ?? [])]
+            .filter(({ checkpoint }) => checkpoint.status === "done")
+            .map(
+                ({ context, checkpoint }) =>
+                    renderTemplate(fields, { ...context, [stage.id]: checkpoint.resultData }) as Record<
+                        string,
+                        unknown
+                    >,
+            );
+    }
+
+    return {
+        outputs,
+        failures,
+        stages: pipeline.stages.map((stage) => summaries.get(stage.id)!),
+        cancelled: Boolean(signal?.aborted),
+    };
+}
+
+/**
+ * Run one stage for a single item outside of a pipeline, e.g. for an interactive tool. `context` holds
+ * what the stage input reads: the lead, the forEach alias and the results of earlier stages by stage ID.
+ * Nothing is checkpointed, but agent results are cached and checked against the stage schema as in a pipeline.
+ */
+export async function runStageItem(
+    stage: StageDefinition,
+    context: { lead: Lead } & Record<string, unknown>,
+    options: Pick<PipelineOptions, "client" | "agentIds" | "timeout" | "cache" | "signal" | "log">,
+): Promise<StageItemResult> {
+    const { client, signal, log = console.log } = options;
+    const rendered = renderTemplate(stage.input, context) as StageInput;
+    const input = stage.includeLeadFields ? { ...context.lead, ...rendered } : rendered;
+
+    if (stage.step) {
+        const [result] = await LOCAL_STEPS[stage.step]!.run(
+            [{ key: context.lead.company, input }],
+            stage.options,
+            signal,
+        );
+        return result!.status === "done" ? result! : { ...result!, errorKind: "run" };
+    }
+
+    const agent = await loadStageAgent(client, stage, resolveAgentId(stage, options.agentIds), log, signal);
+    if (options.cache && stage.cache) {
+        agent.useCache(options.cache);
+    }
+    const [result] = await agent.runBatch([input], {
+        outputRetries: stage.schema?.retries,
+        timeout: stage.timeout ?? options.timeout,
+        signal,
+    });
+    const runId = result!.id || undefined;
+    if (result!.status !== "done") {
+        return {
+            status: "error",
+            runId,
+            error: result!.error ?? `Run ended with status "${result!.status}"`,
+            errorKind: result!.errorKind ?? "run",
+        };
+    }
+    return {
+        status: "done",
+        runId,
+        resultData: result!.resultData ?? {},
+        cached: result!.cached,
+        reused: result!.reused,
+    };
+}
@@ -0,0 +1,182 @@
+import { formatDuration } from "./duration.js";
+import { PipelineEvent } from "./pipeline.js";
+import { Checkpoint } from "./run-store.js";
+
+type StageProgress = {
+    stage: string;
+    status: "waiting" | "running" | "finished";
+    items: Map<string, Checkpoint["status"]>;
+    skipped: number;
+    startedAt?: number;
+    // Items that finished since the stage started, the basis of the ETA
+    completedNow: number;
+};
+
+const BAR_WIDTH = 20;
+const REDRAW_INTERVAL = 250;
+// How often a summary is logged when the output is not a terminal
+const LOG_INTERVAL = 30_000;
+
+/**
+ * Live per-stage progress of a pipeline run. On a terminal it redraws progress bars with
+ * pending/running/done/error counts and an ETA in place, otherwise it logs a summary line
+ * per stage every now and then.
+ */
+export class ProgressDashboard {
+    private stages: Map<string, StageProgress>;
+    private out: NodeJS.WriteStream;
+    private interactive: boolean;
+    private startedAt = Date.now();
+    private drawnLines = 0;
+    private timer?: NodeJS.Timeout;
+
+    constructor(stageIds: string[], out: NodeJS.WriteStream = process.stdout) {
+        this.stages = new Map(
+            stageIds.map((stage) => [
+                stage,
+                { stage, status: "waiting", items: new Map(), skipped: 0, completedNow: 0 },
+            ]),
+        );
+        this.out = out;
+        this.interactive = Boolean(out.isTTY);
+    }
+
+    start(): void {
+        if (this.interactive) {
+            this.draw();
+            this.timer = setInterval(() => this.redraw(), REDRAW_INTERVAL);
+        } else {
+            this.timer = setInterval(() => this.summary().forEach((line) => this.out.write(`${line}\n`)), LOG_INTERVAL);
+        }
+        this.timer.unref();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        if (this.interactive) {
+            this.redraw();
+        }
+    }
+
+    /**
+     * Print a message above the dashboard
+     */
+    log(message: string): void {
+        if (!this.interactive) {
+            this.out.write(`${message}\n`);
+            return;
+        }
+        this.clear();
+        this.out.write(`${message}\n`);
+        this.draw();
+    }
+
+    handle(event: PipelineEvent): void {
+        const progress = this.stages.get(event.stage);
+        if (!progress) {
+            return;
+        }
+
+        switch (event.type) {
+            case "stage-started":
+                progress.status = "running";
+                progress.startedAt = Date.now();
+                progress.skipped = event.skipped;
+                event.items.forEach((item) => progress.items.set(item.key, "pending"));
+                break;
+            case "item-updated": {
+                const previous = progress.items.get(event.key);
+                const finished = event.status === "done" || event.status === "error";
+                // Only runs finishing now tell the current pace, not items finished in an earlier attempt
+                if (finished && previous === "running") {
+                    progress.completedNow++;
+                }
+                progress.items.set(event.key, event.status);
+                break;
+            }
+            case "stage-finished":
+                progress.status = "finished";
+                break;
+        }
+    }
+
+    private counts(progress: StageProgress): Record<Checkpoint["status"], number> {
+        const counts = { pending: 0, running: 0, done: 0, error: 0 };
+        progress.items.forEach((status) => counts[status]++);
+        return counts;
+    }
+
+    private eta(progress: StageProgress, remaining: number): string {
+        if (progress.status !== "running" || remaining === 0) {
+            return "";
+        }
+        if (progress.completedNow === 0 || !progress.startedAt) {
+            return "ETA --";
+        }
+        const elapsed = Date.now() - progress.startedAt;
+        return `ETA ${formatDuration((elapsed / progress.completedNow) * remaining)}`;
+    }
+
+    private stageLine(progress: StageProgress, nameWidth: number): string {
+        const name = progress.stage.padEnd(nameWidth);
+        if (progress.status === "waiting") {
+            return `${name}  waiting`;
+        }
+
+        const counts = this.counts(progress);
+        const total = progress.items.size;
+        const finished = counts.done + counts.error;
+        const filled = total === 0 ? BAR_WIDTH : Math.round((finished / total) * BAR_WIDTH);
+        const bar = `[${"#".repeat(filled)}${"-".repeat(BAR_WIDTH - filled)}]`;
+        const skipped = progress.skipped > 0 ? `  skipped ${progress.skipped}` : "";
+
+        return [
+            `${name}  ${bar} ${String(finished).padStart(4)}/${String(total).padEnd(4)}`,
+            `pending ${counts.pending}  running ${counts.running}  done ${counts.done}  error ${counts.error}${skipped}`,
+            this.eta(progress, counts.pending + counts.running),
+        ]
+            .filter(Boolean)
+            .join("  ");
+    }
+
+    private lines(): string[] {
+        const nameWidth = Math.max(...[...this.stages.keys()].map((stage) => stage.length));
+        return [
+            `Elapsed ${formatDuration(Date.now() - this.startedAt)}`,
+            ...[...this.stages.values()].map((progress) => `  ${this.stageLine(progress, nameWidth)}`),
+        ];
+    }
+
+    /**
+     * One line per started stage, for logs that are not a terminal
+     */
+    private summary(): string[] {
+        return [...this.stages.values()]
+            .filter((progress) => progress.status === "running")
+            .map((progress) => {
+                const counts = this.counts(progress);
+                const eta = this.eta(progress, counts.pending + counts.running);
+                return `${progress.stage}: ${counts.done + counts.error}/${progress.items.size} finished (${counts.running} running, ${counts.error} error)${eta ? `, ${eta}` : ""}`;
+            });
+    }
+
+    private draw(): void {
+        const width = this.out.columns || 120;
+        const lines = this.lines().map((line) => line.slice(0, width - 1));
+        this.out.write(`${lines.join("\n")}\n`);
+        this.drawnLines = lines.length;
+    }
+
+    private clear(): void {
+        if (this.drawnLines > 0) {
+            // Move to the first dashboard line and clear everything below it
+            this.out.write(`\x1b[${this.drawnLines}F\x1b[J`);
+            this.drawnLines = 0;
+        }
+    }
+
+    private redraw(): void {
+        this.clear();
+        this.draw();
+    }
+}
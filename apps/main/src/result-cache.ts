@@ -0,0 +1,119 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+
+import { Agent as AgentData } from "./ag-dev.js";
+import { writeJsonAtomic } from "./run-store.js";
+import { hashJson } from "./stable-json.js";
+
+export type CacheEntry = {
+    agentId: string;
+    // Agent configuration the result was produced with, see agentVersion()
+    agentVersion: string;
+    input: Record<string, unknown>;
+    resultData?: Record<string, unknown>;
+    // Run the result came from
+    runId: string;
+    cachedAt: string;
+};
+
+export type CacheStats = {
+    hits: number;
+    misses: number;
+    writes: number;
+};
+
+/**
+ * Normalize an input so that inputs differing only in key order or surrounding whitespace share a cache entry
+ */
+function normalizeInput(value: unknown): unknown {
+    if (typeof value === "string") {
+        return value.trim().replace(/\s+/g, " ");
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalizeInput);
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([, entryValue]) => entryValue !== undefined && entryValue !== null)
+                .map(([key, entryValue]) => [key, normalizeInput(entryValue)]),
+        );
+    }
+    return value;
+}
+
+/**
+ * Version of an agent for cache keys, changes whenever the agent is updated
+ */
+export function agentVersion(agent: AgentData): string {
+    const { id, createdAt, updatedAt, ...config } = agent;
+    return `${updatedAt}/${hashJson({ id, createdAt, config }).slice(0, 16)}`;
+}
+
+/**
+ * Content-addressed cache of completed agent run results, one JSON file per agent and input.
+ * Entries are keyed on the agent ID, the agent version and the normalized input, so updating
+ * an agent or changing its input never returns a stale result.
+ */
+export class ResultCache {
+    readonly dir: string;
+    private readonly ttl: number;
+    private readonly counts: CacheStats = { hits: 0, misses: 0, writes: 0 };
+
+    /**
+     * @param ttl How long entries stay valid in milliseconds, 0 for no expiry
+     */
+    constructor(dir: string, ttl: number) {
+        this.dir = resolve(dir);
+        this.ttl = ttl;
+    }
+
+    private entryPath(agentId: string, agentVersion: string, input: Record<string, unknown>): string {
+        const key = hashJson({ agentId, agentVersion, input: normalizeInput(input) });
+        return join(this.dir, agentId, `${key}.json`);
+    }
+
+    /**
+     * Look up the result of an earlier run with the same agent version and input
+     */
+    get(agentId: string, agentVersion: string, input: Record<string, unknown>): CacheEntry | undefined {
+        const filePath = this.entryPath(agentId, agentVersion, input);
+
+        let entry: CacheEntry | undefined;
+        if (existsSync(filePath)) {
+            try {
+                entry = JSON.parse(readFileSync(filePath, "utf-8")) as CacheEntry;
+            } catch {
+                // A corrupt entry is a miss, it is overwritten by the next run
+            }
+        }
+
+        if (entry && this.ttl > 0 && Date.now() - Date.parse(entry.cachedAt) > this.ttl) {
+            entry = undefined;
+        }
+
+        if (entry) {
+            this.counts.hits++;
+        } else {
+            this.counts.misses++;
+        }
+        return entry;
+    }
+
+    /**
+     * Cache the result of a completed run
+     */
+    set(entry: Omit<CacheEntry, "cachedAt">): void {
+        const filePath = this.entryPath(entry.agentId, entry.agentVersion, entry.input);
+        mkdirSync(join(this.dir, entry.agentId), { recursive: true });
+        writeJsonAtomic(filePath, { ...entry, cachedAt: new Date().toISOString() });
+        this.counts.writes++;
+    }
+
+    /**
+     * Hits, misses and writes since the cache was opened
+     */
+    get stats(): CacheStats {
+        return { ...this.counts };
+    }
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { Server, request } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { PipelineResults } from "./output-writers.js";
+import { createReviewServer } from "./review-server.js";
+import { ReviewStore } from "./review.js";
+
+const RESULTS: PipelineResults = {
+    leads: [{ company: "Acme" }],
+    failures: [],
+    companyContacts: [{ company: "Acme", contacts: [{ name: "Alex Example", email: "alex@acme.example" }] }],
+    outreachEmails: [
+        { company: "Acme", contact: "Alex Example", variants: [{ variant: "A", subject: "Hello", body: "Hi Alex" }] },
+    ],
+};
+
+/**
+ * Send a request with exactly the given headers, fetch() would fill in Host and Origin itself
+ */
+function send(
+    port: number,
+    method: string,
+    path: string,
+    headers: Record<string, string>,
+    body?: string,
+): Promise<{ status?: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        const outgoing = request({ port, host: "127.0.0.1", method, path, headers }, (response) => {
+            let text = "";
+            response.on("data", (chunk) => (text += chunk));
+            response.on("end", () => resolve({ status: response.statusCode, body: text }));
+        });
+        outgoing.on("error", reject);
+        outgoing.end(body);
+    });
+}
+
+describe("review server", () => {
+    let dir: string;
+    let store: ReviewStore;
+    let server: Server;
+    let port: number;
+    let host: string;
+    const key = encodeURIComponent("Acme/Alex Example");
+
+    before(async () => {
+        dir = mkdtempSync(join(tmpdir(), "review-server-"));
+        store = ReviewStore.open(join(dir, "results.review.json"), join(dir, "results.json"), RESULTS);
+        server = createReviewServer(store, { regenerate: async () => [], log: () => {} });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+        port = (server.address() as AddressInfo).port;
+        host = `127.0.0.1:${port}`;
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("lists the items to its own host only", async () => {
+        const own = await send(port, "GET", "/api/items", { Host: `localhost:${port}` });
+        assert.equal(own.status, 200);
+        assert.equal((JSON.parse(own.body) as unknown[]).length, 1);
+
+        // A DNS-rebinding page reaches the same address under its own name
+        const rebound = await send(port, "GET", "/api/items", { Host: `attacker.example:${port}` });
+        assert.equal(rebound.status, 403);
+        assert.doesNotMatch(rebound.body, /Alex/);
+    });
+
+    it("saves actions sent by the page", async () => {
+        const response = await send(
+            port,
+            "POST",
+            `/api/items/${key}/edit`,
+            { Host: host, Origin: `http://${host}`, "Content-Type": "application/json" },
+            JSON.stringify({ variant: "A", subject: "Hello again", body: "Hi Alex" }),
+        );
+
+        assert.equal(response.status, 200, response.body);
+        assert.equal(store.item("Acme/Alex Example").variants[0]?.subject, "Hello again");
+    });
+
+    it("rejects actions from other origins, without JSON or with oversized bodies", async () => {
+        const approve = (headers: Record<string, string>, body = JSON.stringify({ variant: "A" })) =>
+            send(port, "POST", `/api/items/${key}/approve`, { Host: host, ...headers }, body);
+
+        assert.equal(
+            (await approve({ Origin: "http://attacker.example", "Content-Type": "application/json" })).status,
+            403,
+        );
+        assert.equal((await approve({ "Content-Type": "text/plain" })).status, 415);
+        assert.equal(
+            (await approve({ "Content-Type": "application/json" }, JSON.stringify({ variant: "x".repeat(2 ** 21) })))
+                .status,
+            413,
+        );
+        assert.equal(store.item("Acme/Alex Example").status, "pending");
+    });
+});
@@ -0,0 +1,320 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+
+import { OutreachEmail } from "./outreach-email.js";
+import { ReviewItem, ReviewStore } from "./review.js";
+
+export type ReviewServerOptions = {
+    // Writes new emails for a contact following the reviewer's feedback
+    regenerate: (item: ReviewItem, feedback: string, variant?: OutreachEmail) => Promise<OutreachEmail[]>;
+    log?: (message: string) => void;
+};
+
+class HttpError extends Error {
+    readonly statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+        this.statusCode = statusCode;
+    }
+}
+
+// Actions carry at most an edited email or some feedback
+const MAX_BODY_BYTES = 1024 * 1024;
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    if (request.headers["content-type"]?.split(";")[0]?.trim().toLowerCase() !== "application/json") {
+        throw new HttpError(415, "Request body must be application/json");
+    }
+    if (Number(request.headers["content-length"]) > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body is too large");
+    }
+    let body = "";
+    for await (const chunk of request as AsyncIterable<Buffer>) {
+        if (body.length + chunk.length > MAX_BODY_BYTES) {
+            throw new HttpError(413, "Request body is too large");
+        }
+        body += chunk;
+    }
+    try {
+        return body ? (JSON.parse(body) as Record<string, unknown>) : {};
+    } catch {
+        throw new HttpError(400, "Request body is not valid JSON");
+    }
+}
+
+function stringField(body: Record<string, unknown>, name: string, required = true): string {
+    const value = body[name];
+    if (typeof value !== "string" || (required && !value.trim())) {
+        if (required) {
+            throw new HttpError(400, `Missing ${name}`);
+        }
+        return "";
+    }
+    return value;
+}
+
+/**
+ * Rejects requests for another host name, which a DNS-rebinding page would send to read the review
+ */
+function checkHost(request: IncomingMessage): void {
+    const { host } = request.headers;
+    const port = request.socket.localPort;
+    if (host !== `127.0.0.1:${port}` && host !== `localhost:${port}`) {
+        throw new HttpError(403, `Requests for ${host ?? "no host"} are not allowed`);
+    }
+}
+
+/**
+ * Rejects requests sent by pages of other sites, which browsers mark with their own Origin
+ */
+function checkOrigin(request: IncomingMessage): void {
+    const { origin } = request.headers;
+    const port = request.socket.localPort;
+    if (origin && origin !== `http://127.0.0.1:${port}` && origin !== `http://localhost:${port}`) {
+        throw new HttpError(403, `Requests from ${origin} are not allowed`);
+    }
+}
+
+function send(response: ServerResponse, statusCode: number, body: unknown): void {
+    response.writeHead(statusCode, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * A local web UI for reviewing outreach emails: every contact's company profile, contact profile and
+ * email variants side by side, with approve, edit, reject and regenerate actions. Every action is
+ * saved to the review store right away.
+ */
+export function createReviewServer(store: ReviewStore, options: ReviewServerOptions): Server {
+    const { regenerate, log = console.log } = options;
+
+    const act = async (key: string, action: string, body: Record<string, unknown>): Promise<ReviewItem> => {
+        switch (action) {
+            case "approve":
+                return store.approve(key, stringField(body, "variant"));
+            case "reject":
+                return store.reject(key, stringField(body, "reason", false) || undefined);
+            case "edit":
+                return store.edit(key, stringField(body, "variant"), {
+                    subject: stringField(body, "subject"),
+                    body: stringField(body, "body"),
+                });
+            case "regenerate": {
+                const item = store.item(key);
+                const feedback = stringField(body, "feedback");
+                const variant = item.variants.find((candidate) => candidate.variant === body.variant);
+                log(`Regenerating the email to ${key}...`);
+                let variants: OutreachEmail[];
+                try {
+                    variants = await regenerate(item, feedback, variant);
+                } catch (error) {
+                    throw new HttpError(502, error instanceof Error ? error.message : String(error));
+                }
+                return store.regenerated(key, variants, feedback);
+            }
+            default:
+                throw new HttpError(404, `Unknown action ${action}`);
+        }
+    };
+
+    return createServer(async (request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        try {
+            checkHost(request);
+            if (request.method === "GET" && url.pathname === "/") {
+                response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+                response.end(REVIEW_PAGE);
+                return;
+            }
+            if (request.method === "GET" && url.pathname === "/api/items") {
+                send(response, 200, store.items);
+                return;
+            }
+            // /api/items/{key}/{action}, with the key URL-encoded
+            const match = url.pathname.match(/^\/api\/items\/([^/]+)\/([a-z]+)$/);
+            if (request.method === "POST" && match) {
+                checkOrigin(request);
+                const item = await act(decodeURIComponent(match[1]!), match[2]!, await readBody(request));
+                send(response, 200, item);
+                return;
+            }
+            throw new HttpError(404, `No route for ${request.method} ${url.pathname}`);
+        } catch (error) {
+            // Anything else the store rejected, e.g. an unknown contact or variant
+            const message = error instanceof Error ? error.message : String(error);
+            const statusCode = error instanceof HttpError ? error.statusCode : 400;
+            // The rest of an oversized body is not read, the connection is closed instead
+            if (statusCode === 413) {
+                response.setHeader("Connection", "close");
+            }
+            send(response, statusCode, { error: message });
+        }
+    });
+}
+
+const REVIEW_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Outreach Review</title>
+<style>
+    body { font: 14px/1.5 system-ui, sans-serif; margin: 0; background: #f5f5f7; color: #222; }
+    header { position: sticky; top: 0; background: #fff; border-bottom: 1px solid #ddd; padding: 12px 24px; display: flex; gap: 16px; align-items: center; }
+    header h1 { font-size: 18px; margin: 0; flex: 1; }
+    main { padding: 16px 24px; }
+    .item { background: #fff; border: 1px solid #ddd; border-radius: 8px; margin-bottom: 16px; padding: 16px; }
+    .item h2 { font-size: 16px; margin: 0 0 12px; }
+    .status { font-size: 12px; padding: 2px 8px; border-radius: 10px; margin-left: 8px; background: #eee; }
+    .status.approved { background: #d4f5dd; } .status.rejected { background: #fbd9d9; }
+    .columns { display: grid; grid-template-columns: 1fr 1fr 2fr; gap: 16px; }
+    .columns h3 { font-size: 13px; text-transform: uppercase; color: #666; margin: 0 0 6px; }
+    .profile { white-space: pre-wrap; max-height: 320px; overflow: auto; }
+    input, textarea { width: 100%; box-sizing: border-box; font: inherit; padding: 6px; border: 1px solid #ccc; border-radius: 4px; }
+    textarea { min-height: 180px; }
+    .variant { border-top: 1px solid #eee; padding-top: 8px; margin-top: 8px; }
+    .actions { display: flex; gap: 8px; margin-top: 8px; flex-wrap: wrap; }
+    button { font: inherit; padding: 4px 12px; border-radius: 4px; border: 1px solid #bbb; background: #fafafa; cursor: pointer; }
+    button:disabled { opacity: 0.5; cursor: wait; }
+    .note { color: #666; font-size: 12px; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Outreach Review</h1>
+    <span id="counts"></span>
+    <select id="filter">
+        <option value="all">All</option>
+        <option value="pending">Pending</option>
+        <option value="approved">Approved</option>
+        <option value="rejected">Rejected</option>
+    </select>
+</header>
+<main id="items"></main>
+<script>
+let items = [];
+
+function element(tag, properties = {}, children = []) {
+    const node = Object.assign(document.createElement(tag), properties);
+    node.append(...children);
+    return node;
+}
+
+// Resolves to whether the action was saved, failures are shown to the reviewer
+async function post(item, action, body, buttons) {
+    buttons.forEach((button) => (button.disabled = true));
+    try {
+        const response = await fetch("/api/items/" + encodeURIComponent(item.key) + "/" + action, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.error);
+        }
+        items = items.map((candidate) => (candidate.key === item.key ? result : candidate));
+        render();
+        return true;
+    } catch (error) {
+        alert(error.message);
+        buttons.forEach((button) => (button.disabled = false));
+        return false;
+    }
+}
+
+function renderVariant(item, variant) {
+    const subject = element("input", { value: variant.subject });
+    const body = element("textarea", { value: variant.body });
+    const buttons = [];
+    const button = (label, onclick) => {
+        const node = element("button", { textContent: label, onclick: () => onclick() });
+        buttons.push(node);
+        return node;
+    };
+    const approved = item.status === "approved" && item.approvedVariant === variant.variant;
+    return element("div", { className: "variant" }, [
+        element("strong", { textContent: "Variant " + variant.variant + (approved ? " (approved)" : "") }),
+        subject,
+        body,
+        element("div", { className: "note", textContent: (variant.personalizationNotes || []).join(" · ") }),
+        element("div", { className: "actions" }, [
+            button("Save edit", () =>
+                post(item, "edit", { variant: variant.variant, subject: subject.value, body: body.value }, buttons),
+            ),
+            button("Approve", async () => {
+                // Approving after a failed edit would approve the text the reviewer meant to change
+                const edited = { variant: variant.variant, subject: subject.value, body: body.value };
+                if ((subject.value !== variant.subject || body.value !== variant.body) && !(await post(item, "edit", edited, buttons))) {
+                    return;
+                }
+                await post(item, "approve", { variant: variant.variant }, buttons);
+            }),
+            button("Regenerate with feedback", () => {
+                const feedback = prompt("What should change?");
+                if (feedback) {
+                    post(item, "regenerate", { feedback, variant: variant.variant }, buttons);
+                }
+            }),
+        ]),
+    ]);
+}
+
+function renderItem(item) {
+    const reject = element("button", {
+        textContent: "Reject",
+        onclick: () => post(item, "reject", { reason: prompt("Why? (optional)") || "" }, [reject]),
+    });
+    const regenerate = element("button", {
+        textContent: "Regenerate with feedback",
+        onclick: () => {
+            const feedback = prompt("What should the email say?");
+            if (feedback) {
+                post(item, "regenerate", { feedback }, [regenerate]);
+            }
+        },
+    });
+    const notes = [
+        item.edited ? "Edited by the reviewer." : "",
+        item.feedback ? "Regenerated with: " + item.feedback : "",
+        item.rejectionReason ? "Rejected: " + item.rejectionReason : "",
+    ].filter(Boolean);
+    return element("section", { className: "item" }, [
+        element("h2", {}, [
+            item.contact + (item.role ? ", " + item.role : "") + " at " + item.company + (item.email ? " <" + item.email + ">" : ""),
+            element("span", { className: "status " + item.status, textContent: item.status }),
+        ]),
+        element("div", { className: "columns" }, [
+            element("div", {}, [element("h3", { textContent: "Company" }), element("div", { className: "profile", textContent: item.companyProfile || "No profile." })]),
+            element("div", {}, [element("h3", { textContent: "Contact" }), element("div", { className: "profile", textContent: item.contactProfile || "No profile." })]),
+            element("div", {}, [
+                element("h3", { textContent: "Email" }),
+                element("div", { className: "note", textContent: notes.join(" ") }),
+                ...(item.variants.length > 0 ? item.variants.map((variant) => renderVariant(item, variant)) : [element("p", { textContent: "No email was generated." })]),
+                element("div", { className: "actions" }, [reject, ...(item.variants.length > 0 ? [] : [regenerate])]),
+            ]),
+        ]),
+    ]);
+}
+
+function render() {
+    const filter = document.getElementById("filter").value;
+    const count = (status) => items.filter((item) => item.status === status).length;
+    document.getElementById("counts").textContent =
+        count("pending") + " pending, " + count("approved") + " approved, " + count("rejected") + " rejected";
+    document.getElementById("items").replaceChildren(
+        ...items.filter((item) => filter === "all" || item.status === filter).map(renderItem),
+    );
+}
+
+document.getElementById("filter").onchange = render;
+fetch("/api/items")
+    .then((response) => response.json())
+    .then((loaded) => {
+        items = loaded;
+        render();
+    });
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,172 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+
+import { OutreachEmail } from "./outreach-email.js";
+import { PipelineResults, contactRecords } from "./output-writers.js";
+import { writeJsonAtomic } from "./run-store.js";
+
+// Types for reviewing outreach emails before they are drafted
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+export type ReviewItem = {
+    // "<company>/<contact>"
+    key: string;
+    company: string;
+    contact: string;
+    role?: string;
+    email?: string;
+    companyProfile?: string;
+    contactProfile?: string;
+    variants: OutreachEmail[];
+    status: ReviewStatus;
+    // The variant that gets drafted once approved
+    approvedVariant?: string;
+    // Whether the reviewer changed the generated text
+    edited?: boolean;
+    // Why the email was rejected
+    rejectionReason?: string;
+    // What the last regeneration was asked to change
+    feedback?: string;
+    reviewedAt?: string;
+};
+
+type ReviewFile = {
+    resultsFile: string;
+    items: Record<string, ReviewItem>;
+};
+
+/**
+ * Where the review of a results file is saved by default: next to it, e.g. `results.review.json`
+ */
+export function reviewFileFor(resultsFile: string): string {
+    return join(dirname(resultsFile), `${basename(resultsFile, extname(resultsFile))}.review.json`);
+}
+
+/**
+ * The review state of the outreach emails of one results file, saved after every change
+ */
+export class ReviewStore {
+    readonly filePath: string;
+    private data: ReviewFile;
+
+    private constructor(filePath: string, data: ReviewFile) {
+        this.filePath = filePath;
+        this.data = data;
+    }
+
+    /**
+     * Read a saved review, e.g. to draft the approved emails
+     */
+    static load(filePath: string): ReviewStore {
+        return new ReviewStore(filePath, JSON.parse(readFileSync(filePath, "utf-8")) as ReviewFile);
+    }
+
+    /**
+     * Open the review of a results file, adding its contacts that are not reviewed yet. Reviewed emails
+     * keep their state, only the profiles are updated from the results.
+     */
+    static open(filePath: string, resultsFile: string, results: PipelineResults): ReviewStore {
+        const data: ReviewFile = existsSync(filePath)
+            ? (JSON.parse(readFileSync(filePath, "utf-8")) as ReviewFile)
+            : { resultsFile, items: {} };
+
+        for (const record of contactRecords(results)) {
+            if (!record.contact) {
+                continue;
+            }
+            const key = `${record.company}/${record.contact}`;
+            const profiles = { companyProfile: record.companyProfile, contactProfile: record.contactProfile };
+            data.items[key] = data.items[key]
+                ? { ...data.items[key], ...profiles }
+                : {
+                      key,
+                      company: record.company,
+                      contact: record.contact,
+                      role: record.role,
+                      email: record.email,
+                      ...profiles,
+                      variants: record.emails,
+                      status: "pending",
+                  };
+        }
+
+        const store = new ReviewStore(filePath, data);
+        store.save();
+        return store;
+    }
+
+    get items(): ReviewItem[] {
+        return Object.values(this.data.items);
+    }
+
+    item(key: string): ReviewItem {
+        const item = this.data.items[key];
+        if (!item) {
+            throw new Error(`No email to review for ${key}`);
+        }
+        return item;
+    }
+
+    approve(key: string, variant: string): ReviewItem {
+        const item = this.item(key);
+        if (!item.variants.some((candidate) => candidate.variant === variant)) {
+            throw new Error(`${key} has no variant ${variant}`);
+        }
+        return this.update(key, { status: "approved", approvedVariant: variant, rejectionReason: undefined });
+    }
+
+    reject(key: string, reason?: string): ReviewItem {
+        return this.update(key, { status: "rejected", approvedVariant: undefined, rejectionReason: reason });
+    }
+
+    /**
+     * Replace the subject and body of a variant with the reviewer's text
+     */
+    edit(key: string, variant: string, changes: Pick<OutreachEmail, "subject" | "body">): ReviewItem {
+        const item = this.item(key);
+        if (!item.variants.some((candidate) => candidate.variant === variant)) {
+            throw new Error(`${key} has no variant ${variant}`);
+        }
+        return this.update(key, {
+            variants: item.variants.map((candidate) =>
+                candidate.variant === variant ? { ...candidate, ...changes } : candidate,
+            ),
+            edited: true,
+        });
+    }
+
+    /**
+     * Replace the emails with regenerated ones, which need to be reviewed again
+     */
+    regenerated(key: string, variants: OutreachEmail[], feedback: string): ReviewItem {
+        return this.update(key, {
+            variants,
+            feedback,
+            status: "pending",
+            approvedVariant: undefined,
+            edited: false,
+            rejectionReason: undefined,
+        });
+    }
+
+    /**
+     * The approved email of a contact, with the reviewer's edits
+     */
+    approvedEmail(key: string): OutreachEmail | undefined {
+        const item = this.data.items[key];
+        return item?.status === "approved"
+            ? item.variants.find((variant) => variant.variant === item.approvedVariant)
+            : undefined;
+    }
+
+    private update(key: string, changes: Partial<ReviewItem>): ReviewItem {
+        const item = { ...this.item(key), ...changes, reviewedAt: new Date().toISOString() };
+        this.data.items[key] = item;
+        this.save();
+        return item;
+    }
+
+    private save(): void {
+        writeJsonAtomic(this.filePath, this.data);
+    }
+}
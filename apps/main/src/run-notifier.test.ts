@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { AddressInfo, Socket, createServer, connect } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import { AgDevClient, AgDevNetworkError, AgDevTimeoutError, AgentRun, ListAgentRunsOptions } from "./ag-dev.js";
+import { RunPoller, WebhookNotifier } from "./run-notifier.js";
+
+async function freePort(): Promise<number> {
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    return port;
+}
+
+function post(port: number, body: string, headers: Record<string, string> = {}): Promise<number | undefined> {
+    return new Promise((resolve, reject) => {
+        const outgoing = request(
+            { port, host: "127.0.0.1", path: "/ag-dev/runs", method: "POST", headers },
+            (response) => {
+                response.resume();
+                resolve(response.statusCode);
+            },
+        );
+        outgoing.on("error", reject);
+        outgoing.end(body);
+    });
+}
+
+describe("WebhookNotifier", () => {
+    // Receiving notifications never reaches the API unless a run is waited for
+    const client = {} as AgDevClient;
+    let port: number;
+    let notifier: WebhookNotifier;
+
+    before(async () => {
+        port = await freePort();
+        notifier = new WebhookNotifier(client, { port, secret: "s3cret" });
+        await notifier.start();
+    });
+
+    after(() => notifier.close());
+
+    it("acknowledges notifications that name a run", async () => {
+        assert.equal(
+            await post(port, JSON.stringify({ data: { runId: "run-1" } }), { "X-Webhook-Secret": "s3cret" }),
+            202,
+        );
+        assert.equal(await post(port, JSON.stringify({ status: "done" }), { "X-Webhook-Secret": "s3cret" }), 400);
+    });
+
+    it("rejects notifications without the secret", async () => {
+        assert.equal(await post(port, JSON.stringify({ id: "run-1" })), 401);
+    });
+
+    it("rejects oversized notifications", async () => {
+        const body = JSON.stringify({ id: "x".repeat(70 * 1024) });
+        assert.equal(await post(port, body, { "X-Webhook-Secret": "s3cret" }), 413);
+    });
+
+    it("keeps running when a sender disconnects mid-body", async () => {
+        const socket: Socket = connect(port, "127.0.0.1");
+        await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+        socket.write(
+            "POST /ag-dev/runs HTTP/1.1\r\nHost: 127.0.0.1\r\nX-Webhook-Secret: s3cret\r\n" +
+                `Content-Length: 1000\r\n\r\n${"x".repeat(500)}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        socket.destroy();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        // An unhandled rejection would have failed this test file by now
+        assert.equal(await post(port, JSON.stringify({ id: "run-2" }), { "X-Webhook-Secret": "s3cret" }), 202);
+    });
+
+    it("requires a secret on other interfaces than loopback", async () => {
+        const open = new WebhookNotifier(client, { port, host: "0.0.0.0" });
+        await assert.rejects(open.start(), /webhook secret is required/);
+    });
+});
+
+/**
+ * A client whose runs complete after being seen `checksUntilDone` times, recording every request
+ */
+function scriptedClient(checksUntilDone: number) {
+    const checks = new Map<string, number>();
+    const calls: { method: "get" | "list"; runId?: string; at: number }[] = [];
+    const observe = (runId: string): AgentRun => {
+        const seen = (checks.get(runId) ?? 0) + 1;
+        checks.set(runId, seen);
+        return {
+            id: runId,
+            agentId: "agent",
+            status: seen >= checksUntilDone ? "done" : "running",
+            input: {},
+            createdAt: "2025-01-01T00:00:00.000Z",
+            updatedAt: "2025-01-01T00:00:00.000Z",
+        };
+    };
+
+    const client = new AgDevClient("key", "http://127.0.0.1:9");
+    client.getAgentRun = async (_agentId: string, runId: string) => {
+        calls.push({ method: "get", runId, at: Date.now() });
+        return observe(runId);
+    };
+    client.listAgentRuns = async (_agentId: string, options: ListAgentRunsOptions = {}) => {
+        calls.push({ method: "list", at: Date.now() });
+        const items = [...checks.keys()].map(observe);
+        return { items, total: items.length, page: options.page, pageSize: options.pageSize };
+    };
+    return { client, calls };
+}
+
+describe("RunPoller", () => {
+    it("lists the runs of an agent in one request once their creation time is known", async () => {
+        const { client, calls } = scriptedClient(3);
+        const poller = new RunPoller(client, { initialInterval: 10, batchThreshold: 3 });
+
+        const runs = await Promise.all(["run-1", "run-2", "run-3"].map((runId) => poller.wait("agent", runId)));
+
+        assert.deepEqual(
+            runs.map((run) => run.status),
+            ["done", "done", "done"],
+        );
+        // Each run is fetched once to learn when it was created, then all three are listed together
+        assert.equal(calls.filter((call) => call.method === "get").length, 3);
+        assert.equal(calls.filter((call) => call.method === "list").length, 2);
+        await poller.close();
+    });
+
+    it("checks a run less often the longer it runs, up to maxInterval", async () => {
+        const { client, calls } = scriptedClient(5);
+        const poller = new RunPoller(client, { initialInterval: 30, backoff: 2, maxInterval: 100 });
+        const polled: string[] = [];
+
+        const run = await poller.wait("agent", "run-1", { onPoll: (update) => polled.push(update.status) });
+
+        assert.equal(run.status, "done");
+        assert.deepEqual(polled, ["running", "running", "running", "running", "done"]);
+        const gaps = calls.slice(1).map((call, index) => call.at - calls[index]!.at);
+        [30, 60, 100, 100].forEach((interval, index) => {
+            assert.ok(gaps[index]! >= interval - 5, `check ${index + 2} came after ${gaps[index]}ms`);
+        });
+        assert.ok(gaps[3]! < 200, `the interval grew past maxInterval: ${gaps[3]}ms`);
+        await poller.close();
+    });
+
+    it("keeps checking through network errors and gives up at the timeout", async () => {
+        const { client } = scriptedClient(1);
+        const getAgentRun = client.getAgentRun.bind(client);
+        let failures = 2;
+        client.getAgentRun = async (agentId: string, runId: string) => {
+            if (runId === "run-1" && failures-- > 0) {
+                throw new AgDevNetworkError("Network error: ECONNRESET");
+            }
+            return runId === "stuck"
+                ? { ...(await getAgentRun(agentId, runId)), status: "running" }
+                : getAgentRun(agentId, runId);
+        };
+        const poller = new RunPoller(client, { initialInterval: 10 });
+
+        assert.equal((await poller.wait("agent", "run-1")).status, "done");
+        await assert.rejects(poller.wait("agent", "stuck", { timeout: 50 }), AgDevTimeoutError);
+        await poller.close();
+    });
+});
@@ -0,0 +1,371 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+
+import { AgDevClient, AgDevTimeoutError, AgentRun, RequestOptions, isRetryableError } from "./ag-dev.js";
+
+// Types for learning when agent runs complete
+export type WaitForRunOptions = RequestOptions & {
+    // Milliseconds until the first status check is repeated, growing from there
+    pollInterval?: number;
+    // Milliseconds to wait for the run to complete, 0 = no limit
+    timeout?: number;
+    // Number of consecutive retryable status check failures tolerated before giving up
+    maxPollErrors?: number;
+    // Called with the run after every successful status check
+    onPoll?: (run: AgentRun) => void;
+};
+
+export type RunNotifier = {
+    // Get ready to receive notifications, e.g. start listening for callbacks
+    start(): Promise<void>;
+    // Resolve with the run once it is done or failed. Throws an AgDevTimeoutError after `timeout`
+    // and the abort reason when the signal is aborted; the run keeps going on the server.
+    wait(agentId: string, runId: string, options?: WaitForRunOptions): Promise<AgentRun>;
+    close(): Promise<void>;
+};
+
+export type PollingOptions = {
+    // Milliseconds between the first status checks of a run
+    initialInterval?: number;
+    // Upper bound the interval grows to
+    maxInterval?: number;
+    // Factor the interval grows by after every check of a run that has not completed
+    backoff?: number;
+    // Number of runs of one agent due at once from which their status is listed in one request
+    // instead of being checked one by one
+    batchThreshold?: number;
+};
+
+export type WebhookOptions = {
+    port: number;
+    // Interface to listen on, loopback by default. Any other address requires a secret.
+    host?: string;
+    // Path the platform posts run notifications to
+    path?: string;
+    // Shared secret expected in the X-Webhook-Secret header, notifications are not checked when unset
+    secret?: string;
+    // Milliseconds between the status checks that catch notifications that never arrive
+    fallbackInterval?: number;
+};
+
+// Checks due within this many milliseconds of each other are made together, so runs started
+// around the same time keep being listed in one request
+const COALESCE_WINDOW = 250;
+
+// Notifications only name a run, anything larger is rejected unread
+const MAX_NOTIFICATION_BYTES = 64 * 1024;
+
+type Waiter = {
+    agentId: string;
+    runId: string;
+    interval: number;
+    nextCheck: number;
+    deadline: number;
+    timeout: number;
+    errors: number;
+    maxPollErrors: number;
+    // Learned on the first check, bounds the listing of the agent's runs
+    createdAt?: string;
+    onPoll?: (run: AgentRun) => void;
+    settle: (run?: AgentRun, error?: unknown) => void;
+};
+
+/**
+ * Waits for runs with a single shared poller instead of a polling loop per run. Every run is checked
+ * with an interval that grows while it keeps running, and runs of the same agent that are due
+ * together are checked with one listing request once their creation time is known.
+ */
+export class RunPoller {
+    private client: AgDevClient;
+    private options: Required<PollingOptions>;
+    private waiters = new Set<Waiter>();
+    private timer?: NodeJS.Timeout;
+    private checking = false;
+
+    constructor(client: AgDevClient, options: PollingOptions = {}) {
+        this.client = client;
+        this.options = {
+            initialInterval: options.initialInterval ?? 1000,
+            maxInterval: options.maxInterval ?? 15000,
+            backoff: options.backoff ?? 1.5,
+            batchThreshold: options.batchThreshold ?? 3,
+        };
+    }
+
+    async start(): Promise<void> {}
+
+    async wait(agentId: string, runId: string, options: WaitForRunOptions = {}): Promise<AgentRun> {
+        const { pollInterval = this.options.initialInterval, timeout = 0, maxPollErrors = 5, onPoll, signal } = options;
+        signal?.throwIfAborted();
+
+        return new Promise((resolve, reject) => {
+            const now = Date.now();
+            const waiter: Waiter = {
+                agentId,
+                runId,
+                interval: pollInterval,
+                // The first check is right away, the run may have completed already
+                nextCheck: now,
+                deadline: timeout > 0 ? now + timeout : Infinity,
+                timeout,
+                errors: 0,
+                maxPollErrors,
+                onPoll,
+                settle: (run, error) => {
+                    this.waiters.delete(waiter);
+                    signal?.removeEventListener("abort", onAbort);
+                    if (run) {
+                        resolve(run);
+                    } else {
+                        reject(error);
+                    }
+                    this.schedule();
+                },
+            };
+            const onAbort = () => waiter.settle(undefined, signal!.reason);
+
+            this.waiters.add(waiter);
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.schedule();
+        });
+    }
+
+    /**
+     * Check a run at the next opportunity, e.g. because it was reported complete.
+     * Returns whether the run is waited for.
+     */
+    checkNow(runId: string): boolean {
+        const waiters = [...this.waiters].filter((waiter) => waiter.runId === runId);
+        waiters.forEach((waiter) => (waiter.nextCheck = Date.now()));
+        this.schedule();
+        return waiters.length > 0;
+    }
+
+    async close(): Promise<void> {
+        clearTimeout(this.timer);
+        this.waiters.forEach((waiter) => waiter.settle(undefined, new Error("Stopped waiting for runs")));
+    }
+
+    /**
+     * Set the timer for the next due check or timeout, unless a check is in progress
+     */
+    private schedule(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        if (this.checking || this.waiters.size === 0) {
+            return;
+        }
+        let next = Infinity;
+        this.waiters.forEach((waiter) => (next = Math.min(next, waiter.nextCheck, waiter.deadline)));
+        this.timer = setTimeout(() => void this.check(), Math.max(0, next - Date.now()));
+    }
+
+    private async check(): Promise<void> {
+        this.checking = true;
+        const now = Date.now();
+        const due = new Map<string, Waiter[]>();
+        for (const waiter of this.waiters) {
+            if (now >= waiter.deadline) {
+                waiter.settle(undefined, new AgDevTimeoutError(waiter.runId, waiter.timeout));
+            } else if (now + COALESCE_WINDOW >= waiter.nextCheck) {
+                due.set(waiter.agentId, [...(due.get(waiter.agentId) ?? []), waiter]);
+            }
+        }
+
+        try {
+            await Promise.all([...due].map(([agentId, waiters]) => this.checkAgent(agentId, waiters)));
+        } finally {
+            this.checking = false;
+            this.schedule();
+        }
+    }
+
+    /**
+     * Check the due runs of one agent, listing them in one go where possible
+     */
+    private async checkAgent(agentId: string, waiters: Waiter[]): Promise<void> {
+        let single = waiters;
+        const listable = waiters.filter((waiter) => waiter.createdAt);
+        if (listable.length >= this.options.batchThreshold) {
+            try {
+                const runs = await this.listRuns(agentId, listable);
+                listable.forEach((waiter) => {
+                    const run = runs.get(waiter.runId);
+                    if (run) {
+                        this.update(waiter, run);
+                    }
+                });
+                single = waiters.filter((waiter) => !runs.has(waiter.runId));
+            } catch (error) {
+                listable.forEach((waiter) => this.failed(waiter, error));
+                single = waiters.filter((waiter) => !waiter.createdAt);
+            }
+        }
+
+        await Promise.all(
+            single.map(async (waiter) => {
+                try {
+                    this.update(waiter, await this.client.getAgentRun(agentId, waiter.runId));
+                } catch (error) {
+                    this.failed(waiter, error);
+                }
+            }),
+        );
+    }
+
+    /**
+     * List the runs of an agent created since the oldest waited for run, until all of them are found
+     */
+    private async listRuns(agentId: string, waiters: Waiter[]): Promise<Map<string, AgentRun>> {
+        const runIds = new Set(waiters.map((waiter) => waiter.runId));
+        const createdAfter = waiters.map((waiter) => waiter.createdAt!).sort()[0];
+        const runs = new Map<string, AgentRun>();
+        for await (const run of this.client.iterateAgentRuns(agentId, { createdAfter })) {
+            if (runIds.has(run.id)) {
+                runs.set(run.id, run);
+                if (runs.size === runIds.size) {
+                    break;
+                }
+            }
+        }
+        return runs;
+    }
+
+    private update(waiter: Waiter, run: AgentRun): void {
+        if (!this.waiters.has(waiter)) {
+            return;
+        }
+        waiter.errors = 0;
+        waiter.createdAt ??= run.createdAt;
+        waiter.onPoll?.(run);
+        if (run.status === "done" || run.status === "error") {
+            waiter.settle(run);
+            return;
+        }
+        waiter.nextCheck = Date.now() + waiter.interval;
+        waiter.interval = Math.min(this.options.maxInterval, waiter.interval * this.options.backoff);
+    }
+
+    private failed(waiter: Waiter, error: unknown): void {
+        if (!this.waiters.has(waiter)) {
+            return;
+        }
+        // Keep checking through short API blips, the run itself is unaffected by them
+        if (!isRetryableError(error) || ++waiter.errors > waiter.maxPollErrors) {
+            waiter.settle(undefined, error);
+            return;
+        }
+        waiter.nextCheck = Date.now() + waiter.interval * 2 ** waiter.errors;
+    }
+}
+
+function isLoopback(host: string): boolean {
+    return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/**
+ * Learns about completed runs from callbacks the platform posts to a local HTTP server. A callback
+ * only needs to name the run (`id` or `runId`, also inside `run` or `data`), whose status is then
+ * fetched from the API. Runs are also checked every `fallbackInterval`, in case a callback is lost.
+ */
+export class WebhookNotifier {
+    private poller: RunPoller;
+    private options: Required<Omit<WebhookOptions, "secret">> & Pick<WebhookOptions, "secret">;
+    private server?: Server;
+    private listening?: Promise<void>;
+
+    constructor(client: AgDevClient, options: WebhookOptions) {
+        this.options = {
+            host: "127.0.0.1",
+            path: "/ag-dev/runs",
+            fallbackInterval: 60000,
+            ...options,
+        };
+        this.poller = new RunPoller(client, {
+            initialInterval: this.options.fallbackInterval,
+            maxInterval: this.options.fallbackInterval,
+        });
+    }
+
+    start(): Promise<void> {
+        if (!this.options.secret && !isLoopback(this.options.host)) {
+            return Promise.reject(
+                new Error(`A webhook secret is required to receive notifications on ${this.options.host}`),
+            );
+        }
+        this.listening ??= new Promise<void>((resolve, reject) => {
+            const server = createServer((request, response) => void this.receive(request, response));
+            server.once("error", (error) => {
+                this.listening = undefined;
+                reject(error);
+            });
+            server.listen(this.options.port, this.options.host, () => {
+                // Waiting runs keep the process alive, the server alone does not
+                server.unref();
+                this.server = server;
+                resolve();
+            });
+        });
+        return this.listening;
+    }
+
+    async wait(agentId: string, runId: string, options: WaitForRunOptions = {}): Promise<AgentRun> {
+        await this.start();
+        return this.poller.wait(agentId, runId, { ...options, pollInterval: this.options.fallbackInterval });
+    }
+
+    async close(): Promise<void> {
+        await this.poller.close();
+        await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+        this.server = undefined;
+        this.listening = undefined;
+    }
+
+    private async receive(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        if (request.method !== "POST" || url.pathname !== this.options.path) {
+            response.writeHead(404).end();
+            return;
+        }
+        if (this.options.secret && request.headers["x-webhook-secret"] !== this.options.secret) {
+            response.writeHead(401).end();
+            return;
+        }
+
+        if (Number(request.headers["content-length"]) > MAX_NOTIFICATION_BYTES) {
+            response.writeHead(413, { Connection: "close" }).end();
+            return;
+        }
+        let body = "";
+        try {
+            for await (const chunk of request as AsyncIterable<Buffer>) {
+                if (body.length + chunk.length > MAX_NOTIFICATION_BYTES) {
+                    response.writeHead(413, { Connection: "close" }).end();
+                    return;
+                }
+                body += chunk;
+            }
+        } catch {
+            // The sender went away mid-body, there is no one left to answer
+            response.destroy();
+            return;
+        }
+        let runId: unknown;
+        try {
+            const notification = JSON.parse(body) as Record<string, unknown>;
+            runId = [notification, notification.run, notification.data]
+                .filter((payload): payload is Record<string, unknown> => typeof payload === "object" && !!payload)
+                .flatMap((payload) => [payload.runId, payload.id])
+                .find((value) => typeof value === "string");
+        } catch {
+            // Answered below like a notification without a run ID
+        }
+        if (typeof runId !== "string") {
+            response.writeHead(400).end();
+            return;
+        }
+
+        // Notifications for runs of other processes are acknowledged as well
+        this.poller.checkNow(runId);
+        response.writeHead(202).end();
+    }
+}
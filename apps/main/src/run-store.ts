@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+
+import { AgentRun } from "./ag-dev.js";
+import { FailureKind } from "./agent.js";
+import { Lead } from "./leads.js";
+
+// Types for the on-disk checkpoint store
+export type Checkpoint<TInput = Record<string, unknown>, TOutput = Record<string, unknown>> = {
+    key: string;
+    input: TInput;
+    status: AgentRun["status"];
+    runId?: string;
+    resultData?: TOutput;
+    error?: string;
+    errorKind?: FailureKind;
+    // Whether the result came from the result cache instead of a run
+    cached?: boolean;
+    // Whether the result is that of an earlier run found on the server
+    reused?: boolean;
+    // Whether the result was taken from an earlier pipeline run because the item had not gone stale
+    unchanged?: boolean;
+    savedAt: string;
+};
+
+export type RunManifest = {
+    sourceFile: string;
+    // Pipeline definition the run was started with
+    pipelineFile?: string;
+    // ag.dev profile the run was started with
+    profile?: string;
+    leads: Lead[];
+    createdAt: string;
+};
+
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * Build a file name that is readable but still unique for any key
+ */
+function checkpointFileName(key: string): string {
+    const slug = key
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 48);
+    const hash = createHash("sha1").update(key).digest("hex").slice(0, 8);
+    return `${slug || "item"}-${hash}.json`;
+}
+
+/**
+ * Write a JSON file atomically so a crash never leaves a half-written checkpoint behind
+ */
+export function writeJsonAtomic(filePath: string, data: unknown): void {
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmpPath, filePath);
+}
+
+/**
+ * Persists the results of every pipeline stage per company or contact in a run directory,
+ * so an interrupted run can be resumed without repeating finished agent runs.
+ */
+export class RunStore {
+    readonly dir: string;
+    readonly manifest: RunManifest;
+
+    private constructor(dir: string, manifest: RunManifest) {
+        this.dir = dir;
+        this.manifest = manifest;
+    }
+
+    /**
+     * Create a new run directory and write its manifest
+     */
+    static create(dir: string, manifest: RunManifest): RunStore {
+        const absoluteDir = resolve(dir);
+        mkdirSync(absoluteDir, { recursive: true });
+        writeJsonAtomic(join(absoluteDir, MANIFEST_FILE), manifest);
+        return new RunStore(absoluteDir, manifest);
+    }
+
+    /**
+     * Open an existing run directory
+     */
+    static open(dir: string): RunStore {
+        const absoluteDir = resolve(dir);
+        const manifestPath = join(absoluteDir, MANIFEST_FILE);
+
+        if (!existsSync(manifestPath)) {
+            throw new Error(`No run manifest found in ${absoluteDir}`);
+        }
+
+        const manifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as RunManifest & { companies?: string[] };
+        // Runs started before lead files were supported only list company names
+        manifest.leads ??= (manifest.companies ?? []).map((company) => ({ company }));
+        return new RunStore(absoluteDir, manifest);
+    }
+
+    /**
+     * Load the checkpoint of a stage item, if one was saved
+     */
+    load<TInput, TOutput>(stage: string, key: string): Checkpoint<TInput, TOutput> | undefined {
+        const filePath = join(this.dir, stage, checkpointFileName(key));
+        if (!existsSync(filePath)) {
+            return undefined;
+        }
+        return JSON.parse(readFileSync(filePath, "utf-8")) as Checkpoint<TInput, TOutput>;
+    }
+
+    /**
+     * Save the checkpoint of a stage item, replacing any previous one
+     */
+    save<TInput, TOutput>(
+        stage: string,
+        checkpoint: Omit<Checkpoint<TInput, TOutput>, "savedAt">,
+    ): Checkpoint<TInput, TOutput> {
+        const stageDir = join(this.dir, stage);
+        const saved = { ...checkpoint, savedAt: new Date().toISOString() };
+        mkdirSync(stageDir, { recursive: true });
+        writeJsonAtomic(join(stageDir, checkpointFileName(checkpoint.key)), saved);
+        return saved;
+    }
+}
@@ -0,0 +1,24 @@
+import { createHash } from "crypto";
+
+/**
+ * JSON with sorted object keys, so equal values always serialize the same way
+ */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, entryValue]) => entryValue !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of a value's stable JSON, the same for equal values regardless of key order
+ */
+export function hashJson(value: unknown): string {
+    return createHash("sha256").update(stableStringify(value)).digest("hex");
+}
@@ -0,0 +1,128 @@
+/**
+ * Wait for the given number of milliseconds, rejecting with the abort reason when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Limits how many tasks may hold a slot at the same time
+ */
+export class Semaphore {
+    private available: number;
+    private readonly waiters: (() => void)[] = [];
+
+    /**
+     * @param limit Maximum number of concurrent holders, 0 for no limit
+     */
+    constructor(limit: number) {
+        this.available = limit > 0 ? limit : Infinity;
+    }
+
+    /**
+     * Wait until a slot is free and take it, or stop waiting when the signal is aborted
+     */
+    async acquire(signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+        if (this.available > 0) {
+            this.available--;
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            const waiter = () => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                this.waiters.splice(this.waiters.indexOf(waiter), 1);
+                reject(signal!.reason);
+            };
+            this.waiters.push(waiter);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Give a slot back, handing it directly to the next waiter if there is one
+     */
+    release(): void {
+        const next = this.waiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.available++;
+        }
+    }
+
+    /**
+     * Run a task while holding a slot
+     */
+    async use<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+}
+
+/**
+ * Spaces calls out evenly so no more than the given number happen per second
+ */
+export class RateLimiter {
+    private readonly interval: number;
+    private nextSlot = 0;
+
+    /**
+     * @param requestsPerSecond Maximum number of calls per second, 0 for no limit
+     */
+    constructor(requestsPerSecond: number) {
+        this.interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    }
+
+    /**
+     * Wait for the next free slot
+     */
+    async acquire(signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+        if (this.interval === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + this.interval;
+
+        if (slot > now) {
+            await sleep(slot - now, signal);
+        }
+    }
+}
+
+/**
+ * Map over items with at most `concurrency` tasks running at once, keeping the input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal,
+): Promise<R[]> {
+    const semaphore = new Semaphore(concurrency);
+    return Promise.all(items.map((item, index) => semaphore.use(() => task(item, index), signal)));
+}
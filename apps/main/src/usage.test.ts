@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { AgDevClient, AgentRunEvent, PageOptions } from "./ag-dev.js";
+import { AgentRunResult } from "./agent.js";
+import { UsageTracker, parseBudget, usageFromEvents } from "./usage.js";
+
+function event(runId: string, index: number, data: Record<string, unknown>, type = "llm.call"): AgentRunEvent {
+    return { id: `${runId}-${index}`, runId, type, timestamp: "2025-01-01T00:00:00Z", data };
+}
+
+function result(id: string): AgentRunResult {
+    return {
+        id,
+        status: "done",
+        input: {},
+        createdAt: "2025-01-01T00:00:00Z",
+        updatedAt: "2025-01-01T00:00:05Z",
+        completedAt: "2025-01-01T00:00:05Z",
+    };
+}
+
+/**
+ * A client serving the events of runs two per page, each page after `delayMs`
+ */
+function eventClient(events: Record<string, AgentRunEvent[]>, delayMs = 0): AgDevClient {
+    const client = new AgDevClient("key", "http://127.0.0.1:9");
+    client.getAgentRunEvents = async (_agentId: string, runId: string, { page = 1 }: PageOptions = {}) => {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        const items = events[runId] ?? [];
+        return { items: items.slice((page - 1) * 2, page * 2), total: items.length, page, pageSize: 2 };
+    };
+    return client;
+}
+
+const item = { agentId: "agent", stage: "company-profile", company: "Acme" };
+
+describe("usageFromEvents", () => {
+    it("adds up tokens, cost and tool calls in camelCase, snake_case and usage objects", () => {
+        const usage = usageFromEvents([
+            event("run", 0, { inputTokens: 10, outputTokens: 5, model: "small" }),
+            event("run", 1, { usage: { input_tokens: 20, completion_tokens: 7, cost_usd: 0.5 } }),
+            event("run", 2, { tool: "search" }, "tool.call"),
+        ]);
+
+        assert.deepEqual(usage, { inputTokens: 30, outputTokens: 12, toolCalls: 1, cost: 0.5, model: "small" });
+    });
+});
+
+describe("parseBudget", () => {
+    it("reads run and cost limits", () => {
+        assert.deepEqual(parseBudget("runs=200, cost=5"), { runs: 200, cost: 5 });
+        assert.throws(() => parseBudget("tokens=5"), /Invalid budget "tokens=5"/);
+    });
+});
+
+describe("UsageTracker", () => {
+    it("reads the events of a run across all pages", async () => {
+        const events = Array.from({ length: 5 }, (_, index) => event("run-1", index, { inputTokens: 100, cost: 1 }));
+        const usage = new UsageTracker(eventClient({ "run-1": events }));
+
+        usage.runCompleted(result("run-1"), item);
+        const summary = await usage.summary();
+
+        assert.equal(summary.total.inputTokens, 500);
+        assert.equal(summary.total.cost, 5);
+        assert.equal(summary.runs[0]?.durationMs, 5000);
+    });
+
+    it("checks the cost limit against the runs completed so far", async () => {
+        const usage = new UsageTracker(eventClient({ "run-1": [event("run-1", 0, { cost: 3 })] }, 20), { cost: 2 });
+
+        assert.equal(await usage.tryStartRun(), true);
+        usage.runCompleted(result("run-1"), item);
+
+        // The run's cost is still being read, new runs wait for it instead of starting past the limit
+        assert.equal(await usage.tryStartRun(), false);
+        assert.equal(usage.budgetExceeded, "cost budget of 2 reached");
+    });
+
+    it("stops at the run limit", async () => {
+        const usage = new UsageTracker(eventClient({}), { runs: 1 });
+
+        assert.equal(await usage.tryStartRun(), true);
+        assert.equal(await usage.tryStartRun(), false);
+        assert.equal((await usage.summary()).budgetExceeded, "run budget of 1 reached");
+    });
+});
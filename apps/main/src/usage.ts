@@ -0,0 +1,239 @@
+import { AgDevClient, AgentRunEvent } from "./ag-dev.js";
+import { AgentRunResult } from "./agent.js";
+
+// Types for usage and cost accounting of agent runs
+export type RunUsage = {
+    runId: string;
+    agentId: string;
+    stage: string;
+    company: string;
+    item?: string;
+    status: AgentRunResult["status"];
+    // From the run's createdAt to its completedAt, in milliseconds
+    durationMs?: number;
+    // Status requests made while waiting for the run
+    polls: number;
+    // Taken from the run's events, when the agent reports them
+    model?: string;
+    inputTokens: number;
+    outputTokens: number;
+    toolCalls: number;
+    cost?: number;
+};
+
+export type UsageTotals = {
+    runs: number;
+    failed: number;
+    durationMs: number;
+    polls: number;
+    inputTokens: number;
+    outputTokens: number;
+    toolCalls: number;
+    // Unset when no run reported a cost
+    cost?: number;
+};
+
+export type UsageSummary = {
+    total: UsageTotals;
+    agents: ({ agentId: string } & UsageTotals)[];
+    stages: ({ stage: string } & UsageTotals)[];
+    companies: ({ company: string } & UsageTotals)[];
+    runs: RunUsage[];
+    // Set when the budget stopped new runs from being started
+    budgetExceeded?: string;
+};
+
+export type UsageBudget = {
+    // Maximum number of agent runs to start
+    runs?: number;
+    // Maximum cost of the completed runs, in the currency the agents report
+    cost?: number;
+};
+
+/**
+ * Parse a budget such as `runs=200`, `cost=5` or `runs=200,cost=5`
+ */
+export function parseBudget(value: string): UsageBudget {
+    const budget: UsageBudget = {};
+    for (const part of value.split(",")) {
+        const [name, limit] = part.split("=").map((text) => text.trim());
+        const number = Number(limit);
+        if ((name !== "runs" && name !== "cost") || !limit || !Number.isFinite(number) || number < 0) {
+            throw new Error(`Invalid budget "${part}", expected e.g. runs=200 or cost=5`);
+        }
+        budget[name] = number;
+    }
+    return budget;
+}
+
+function numberField(data: Record<string, unknown>, names: string[]): number | undefined {
+    const value = names.map((name) => data[name]).find((candidate) => typeof candidate === "number");
+    return value as number | undefined;
+}
+
+/**
+ * Add up the model usage the events of a run report. Events may carry it directly in their data or
+ * in a `usage` object, with camelCase or snake_case names.
+ */
+export function usageFromEvents(
+    events: AgentRunEvent[],
+): Pick<RunUsage, "model" | "inputTokens" | "outputTokens" | "toolCalls" | "cost"> {
+    const usage: ReturnType<typeof usageFromEvents> = { inputTokens: 0, outputTokens: 0, toolCalls: 0 };
+    for (const event of events) {
+        const data: Record<string, unknown> = event.data ?? {};
+        const fields =
+            typeof data.usage === "object" && data.usage !== null ? (data.usage as Record<string, unknown>) : data;
+
+        usage.inputTokens += numberField(fields, ["inputTokens", "input_tokens", "promptTokens", "prompt_tokens"]) ?? 0;
+        usage.outputTokens +=
+            numberField(fields, ["outputTokens", "output_tokens", "completionTokens", "completion_tokens"]) ?? 0;
+        const cost = numberField(fields, ["cost", "costUsd", "cost_usd"]);
+        if (cost !== undefined) {
+            usage.cost = (usage.cost ?? 0) + cost;
+        }
+        const model = fields.model ?? data.model;
+        if (typeof model === "string") {
+            usage.model = model;
+        }
+        if (event.type === "tool.call") {
+            usage.toolCalls++;
+        }
+    }
+    return usage;
+}
+
+function totals(runs: RunUsage[]): UsageTotals {
+    const costs = runs.map((run) => run.cost).filter((cost) => cost !== undefined);
+    const sum = (field: "durationMs" | "polls" | "inputTokens" | "outputTokens" | "toolCalls") =>
+        runs.reduce((total, run) => total + (run[field] ?? 0), 0);
+    return {
+        runs: runs.length,
+        failed: runs.filter((run) => run.status === "error").length,
+        durationMs: sum("durationMs"),
+        polls: sum("polls"),
+        inputTokens: sum("inputTokens"),
+        outputTokens: sum("outputTokens"),
+        toolCalls: sum("toolCalls"),
+        cost: costs.length > 0 ? costs.reduce((total, cost) => total + cost, 0) : undefined,
+    };
+}
+
+function groupTotals<K extends string>(runs: RunUsage[], name: K, keyOf: (run: RunUsage) => string) {
+    const groups = new Map<string, RunUsage[]>();
+    runs.forEach((run) => groups.set(keyOf(run), [...(groups.get(keyOf(run)) ?? []), run]));
+    return [...groups].map(([key, group]) => ({ [name]: key, ...totals(group) }) as Record<K, string> & UsageTotals);
+}
+
+/**
+ * Records the agent runs a pipeline starts: how long they took, how often they were polled and the
+ * tokens and cost their events report. Runs answered from the cache or reused are not counted.
+ * With a budget, `tryStartRun` turns false once the run count or cost limit is reached.
+ */
+export class UsageTracker {
+    private client: AgDevClient;
+    private budget: UsageBudget;
+    private runs = new Map<string, RunUsage>();
+    private polls = new Map<string, number>();
+    private started = 0;
+    private cost = 0;
+    // Event requests of completed runs still in progress
+    private eventRequests = new Set<Promise<void>>();
+    private exceeded?: string;
+
+    constructor(client: AgDevClient, budget: UsageBudget = {}) {
+        this.client = client;
+        this.budget = budget;
+    }
+
+    /**
+     * Count a run about to be started, unless the budget is used up. With a cost limit, the costs of
+     * the runs completed so far are read from their events first, so the limit is checked against them.
+     */
+    async tryStartRun(): Promise<boolean> {
+        if (this.budget.cost !== undefined) {
+            await Promise.all(this.eventRequests);
+        }
+        if (this.budget.runs !== undefined && this.started >= this.budget.runs) {
+            this.exceeded ??= `run budget of ${this.budget.runs} reached`;
+        } else if (this.budget.cost !== undefined && this.cost >= this.budget.cost) {
+            this.exceeded ??= `cost budget of ${this.budget.cost} reached`;
+        }
+        if (this.exceeded) {
+            return false;
+        }
+        this.started++;
+        return true;
+    }
+
+    /**
+     * Why new runs are no longer started, undefined while the budget holds
+     */
+    get budgetExceeded(): string | undefined {
+        return this.exceeded;
+    }
+
+    runPolled(runId: string): void {
+        this.polls.set(runId, (this.polls.get(runId) ?? 0) + 1);
+    }
+
+    /**
+     * Record a completed or failed run, every attempt of an item separately. Its usage is read from
+     * its events in the background.
+     */
+    runCompleted(
+        result: AgentRunResult,
+        item: { agentId: string; stage: string; company: string; item?: string },
+    ): void {
+        if (!result.id || result.cached || result.reused || this.runs.has(result.id)) {
+            return;
+        }
+        const usage: RunUsage = {
+            runId: result.id,
+            ...item,
+            status: result.status,
+            durationMs: result.completedAt
+                ? Math.max(0, Date.parse(result.completedAt) - Date.parse(result.createdAt))
+                : undefined,
+            polls: this.polls.get(result.id) ?? 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            toolCalls: 0,
+        };
+        this.runs.set(result.id, usage);
+
+        const request = this.readEvents(item.agentId, result.id).then(
+            (events) => {
+                Object.assign(usage, usageFromEvents(events));
+                this.cost += usage.cost ?? 0;
+            },
+            // Usage is informational, a run whose events cannot be fetched is counted without it
+            () => {},
+        );
+        this.eventRequests.add(request);
+        void request.finally(() => this.eventRequests.delete(request));
+    }
+
+    private async readEvents(agentId: string, runId: string): Promise<AgentRunEvent[]> {
+        const events: AgentRunEvent[] = [];
+        for await (const event of this.client.iterateAgentRunEvents(agentId, runId)) {
+            events.push(event);
+        }
+        return events;
+    }
+
+    /**
+     * Wait for the events of every recorded run and sum up the usage per agent, stage and company
+     */
+    async summary(): Promise<UsageSummary> {
+        await Promise.all(this.eventRequests);
+        const runs = [...this.runs.values()];
+        return {
+            total: totals(runs),
+            agents: groupTotals(runs, "agentId", (run) => run.agentId),
+            stages: groupTotals(runs, "stage", (run) => run.stage),
+            companies: groupTotals(runs, "company", (run) => run.company),
+            runs,
+            ...(this.exceeded ? { budgetExceeded: this.exceeded } : {}),
+        };
+    }
+}
@@ -0,0 +1,123 @@
+import { executeGmailTool, GmailToolOptions, GmailToolResult } from "./gmail-tool.js";
+
+export type GmailDraftParams = {
+    subject: string;
+    body: string;
+    recipient: string;
+    cc?: string[];
+    bcc?: string[];
+    user_id?: string;
+    // Wait for the user to authorize Gmail access instead of returning the authorization link
+    wait_for_authorization?: boolean;
+};
+
+export type GmailDraftResult = GmailToolResult;
+
+export type ListGmailDraftsParams = {
+    // How many drafts to list, newest first
+    limit?: number;
+    user_id?: string;
+};
+
+export type UpdateGmailDraftParams = GmailDraftParams & {
+    draft_id: string;
+};
+
+export type GmailDraftIdParams = {
+    draft_id: string;
+    user_id?: string;
+};
+
+export async function createGmailDraft(
+    params: GmailDraftParams,
+    options: Pick<GmailToolOptions, "onAuthorizationRequired"> = {},
+): Promise<GmailDraftResult> {
+    return executeGmailTool(
+        "Gmail.WriteDraftEmail",
+        {
+            subject: params.subject,
+            body: params.body,
+            recipient: params.recipient,
+            cc: params.cc,
+            bcc: params.bcc,
+        },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail draft created successfully",
+            failureMessage: "Failed to create Gmail draft",
+            waitForAuthorization: params.wait_for_authorization,
+            onAuthorizationRequired: options.onAuthorizationRequired,
+        },
+    );
+}
+
+export async function listGmailDrafts(params: ListGmailDraftsParams): Promise<GmailDraftResult> {
+    return executeGmailTool(
+        "Gmail.ListDraftEmails",
+        { n_drafts: params.limit },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail drafts listed successfully",
+            failureMessage: "Failed to list Gmail drafts",
+        },
+    );
+}
+
+/**
+ * Replace the subject, body and recipients of a draft
+ */
+export async function updateGmailDraft(params: UpdateGmailDraftParams): Promise<GmailDraftResult> {
+    return executeGmailTool(
+        "Gmail.UpdateDraftEmail",
+        {
+            draft_email_id: params.draft_id,
+            subject: params.subject,
+            body: params.body,
+            recipient: params.recipient,
+            cc: params.cc,
+            bcc: params.bcc,
+        },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail draft updated successfully",
+            failureMessage: "Failed to update Gmail draft",
+        },
+    );
+}
+
+export async function deleteGmailDraft(params: GmailDraftIdParams): Promise<GmailDraftResult> {
+    return executeGmailTool(
+        "Gmail.DeleteDraftEmail",
+        { draft_email_id: params.draft_id },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail draft deleted successfully",
+            failureMessage: "Failed to delete Gmail draft",
+        },
+    );
+}
+
+export async function sendGmailDraft(params: GmailDraftIdParams): Promise<GmailDraftResult> {
+    return executeGmailTool(
+        "Gmail.SendDraftEmail",
+        { email_id: params.draft_id },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail draft sent successfully",
+            failureMessage: "Failed to send Gmail draft",
+        },
+    );
+}
+
+// Example usage (commented out for module use)
+/*
+const example = async () => {
+    const result = await createGmailDraft({
+        subject: "Project Update",
+        body: "Please find the attached project update.",
+        recipient: "john.doe@example.com",
+    });
+
+    console.log(result);
+};
+*/
@@ -0,0 +1,127 @@
+import { executeGmailTool, GmailToolResult } from "./gmail-tool.js";
+
+export type SearchGmailThreadsParams = {
+    // Threads with messages from or to this address, e.g. earlier conversations with a contact
+    contact?: string;
+    sender?: string;
+    recipient?: string;
+    subject?: string;
+    body?: string;
+    // e.g. "last_7_days", "last_30_days" or "this_year"
+    date_range?: string;
+    max_results?: number;
+    user_id?: string;
+};
+
+export type GetGmailThreadParams = {
+    thread_id: string;
+    user_id?: string;
+};
+
+export type ReplyToGmailEmailParams = {
+    // ID of the message to reply to, the reply is added to its thread
+    message_id: string;
+    body: string;
+    reply_all?: boolean;
+    bcc?: string[];
+    user_id?: string;
+};
+
+export type ChangeGmailLabelsParams = {
+    message_id: string;
+    add?: string[];
+    remove?: string[];
+    user_id?: string;
+};
+
+type GmailThread = { id?: string };
+
+function threadsOf(result: GmailToolResult): GmailThread[] {
+    const value = result.data?.output?.value as { threads?: GmailThread[] } | undefined;
+    return Array.isArray(value?.threads) ? value.threads : [];
+}
+
+/**
+ * Search the inbox for threads. With `contact`, threads sent by and sent to the contact are
+ * searched separately and merged, since Gmail's search has no single field for either direction.
+ */
+export async function searchGmailThreads(params: SearchGmailThreadsParams): Promise<GmailToolResult> {
+    const { contact, user_id, ...filters } = params;
+    const search = (input: Record<string, unknown>) =>
+        executeGmailTool("Gmail.SearchThreads", input, {
+            user_id,
+            successMessage: "Gmail threads searched successfully",
+            failureMessage: "Failed to search Gmail threads",
+        });
+
+    if (!contact) {
+        return search(filters);
+    }
+
+    const sent = await search({ ...filters, sender: contact });
+    if (!sent.success) {
+        return sent;
+    }
+    const received = await search({ ...filters, recipient: contact });
+    if (!received.success) {
+        return received;
+    }
+
+    // A thread with messages in both directions is found by both searches
+    const found = [...threadsOf(sent), ...threadsOf(received)];
+    const threads = found.filter(
+        (thread, index) => !thread.id || found.findIndex((other) => other.id === thread.id) === index,
+    );
+    return {
+        ...sent,
+        data: { ...sent.data!, output: { ...sent.data?.output, value: { threads, num_threads: threads.length } } },
+    };
+}
+
+export async function getGmailThread(params: GetGmailThreadParams): Promise<GmailToolResult> {
+    return executeGmailTool(
+        "Gmail.GetThread",
+        { thread_id: params.thread_id },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail thread retrieved successfully",
+            failureMessage: "Failed to get Gmail thread",
+        },
+    );
+}
+
+/**
+ * Send a reply in the thread of a message, to its sender or to every recipient
+ */
+export async function replyToGmailEmail(params: ReplyToGmailEmailParams): Promise<GmailToolResult> {
+    return executeGmailTool(
+        "Gmail.ReplyToEmail",
+        {
+            reply_to_message_id: params.message_id,
+            body: params.body,
+            reply_to_whom: params.reply_all ? "every_recipient" : "only_the_sender",
+            bcc: params.bcc,
+        },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail reply sent successfully",
+            failureMessage: "Failed to reply to Gmail message",
+        },
+    );
+}
+
+export async function changeGmailLabels(params: ChangeGmailLabelsParams): Promise<GmailToolResult> {
+    return executeGmailTool(
+        "Gmail.ChangeEmailLabels",
+        {
+            email_id: params.message_id,
+            labels_to_add: params.add ?? [],
+            labels_to_remove: params.remove ?? [],
+        },
+        {
+            user_id: params.user_id,
+            successMessage: "Gmail labels changed successfully",
+            failureMessage: "Failed to change Gmail labels",
+        },
+    );
+}
@@ -0,0 +1,225 @@
+import { AuthenticationError, PermissionDeniedError } from "@arcadeai/arcadejs";
+import { ExecuteToolResponse } from "@arcadeai/arcadejs/resources.mjs";
+import { AuthorizationResponse } from "@arcadeai/arcadejs/resources/shared.mjs";
+import { createArcadeClient, getUserId } from "./arcade-client.js";
+
+export type GmailAuthorization = {
+    // Pass to check_authorization to find out whether the user has granted access
+    id: string;
+    status: "not_started" | "pending" | "completed" | "failed";
+    // Where the user grants access, until they have
+    url?: string;
+};
+
+export type GmailToolResult = {
+    success: boolean;
+    message: string;
+    data?: ExecuteToolResponse;
+    error?: string;
+    // Set when the user has to authorize Gmail access before the tool can run
+    authorization?: GmailAuthorization;
+};
+
+export type GmailToolOptions = {
+    user_id?: string;
+    // Messages of the result, e.g. "Gmail draft created successfully" and "Failed to create Gmail draft"
+    successMessage: string;
+    failureMessage: string;
+    // Wait until the user has authorized Gmail access instead of returning the authorization link
+    waitForAuthorization?: boolean;
+    // Called with the authorization link before waiting, so the caller can show it to the user
+    onAuthorizationRequired?: (authorization: GmailAuthorization) => void;
+};
+
+export type CheckAuthorizationParams = {
+    auth_id: string;
+    // Seconds to wait for the user to finish authorizing (max 59)
+    wait?: number;
+};
+
+// Tools each user has authorized, so later calls skip the authorize request
+const authorizedTools = new Map<string, Set<string>>();
+// Authorizations waiting for the user, recorded in authorizedTools once completed
+const pendingAuthorizations = new Map<string, { userId: string; toolName: string }>();
+
+function setAuthorized(userId: string, toolName: string, authorized: boolean): void {
+    const tools = authorizedTools.get(userId) ?? new Set<string>();
+    if (authorized) {
+        tools.add(toolName);
+    } else {
+        tools.delete(toolName);
+    }
+    authorizedTools.set(userId, tools);
+}
+
+// Tool errors carry no kind, ones about missing or revoked Gmail access are told apart by their message
+const ACCESS_ERROR_PATTERN =
+    /unauthori[sz]ed|unauthenticated|authori[sz]ation|permission|forbidden|invalid_grant|insufficient.*scope|revoked|expired.*token|token.*expired|\b40[13]\b/i;
+
+/**
+ * Whether an error means the user's Gmail access is gone, rather than e.g. a bad recipient or a rate limit
+ */
+function isAccessError(error: unknown): boolean {
+    if (error instanceof AuthenticationError || error instanceof PermissionDeniedError) {
+        return true;
+    }
+    if (error instanceof Error) {
+        return false;
+    }
+    const { message, developer_message: developerMessage } = error as ExecuteToolResponse.Output.Error;
+    return ACCESS_ERROR_PATTERN.test(`${message} ${developerMessage ?? ""}`);
+}
+
+function authorizationOf(response: AuthorizationResponse, id: string): GmailAuthorization {
+    return {
+        id: response.id ?? id,
+        status: response.status ?? "pending",
+        url: response.status === "completed" ? undefined : response.url,
+    };
+}
+
+/**
+ * Execute a tool of Arcade's Gmail toolkit for a user. A user who has not authorized Gmail access
+ * for the tool yet gets an "authorization required" result with the link to authorize at, unless
+ * `waitForAuthorization` is set, which hands the link to `onAuthorizationRequired` and waits instead.
+ */
+export async function executeGmailTool(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: GmailToolOptions,
+): Promise<GmailToolResult> {
+    const clientResult = createArcadeClient();
+
+    if (!clientResult.success) {
+        return {
+            success: false,
+            message: clientResult.error || "Failed to create Arcade client",
+            error: "Client creation failed",
+        };
+    }
+
+    const client = clientResult.client!;
+    const USER_ID = getUserId(options.user_id);
+
+    try {
+        if (!authorizedTools.get(USER_ID)?.has(toolName)) {
+            // Start the authorization process
+            const authResponse = await client.tools.authorize({
+                tool_name: toolName,
+                user_id: USER_ID,
+            });
+
+            if (authResponse.status !== "completed") {
+                if (!options.waitForAuthorization) {
+                    if (!authResponse.id) {
+                        throw new Error("Arcade returned no authorization ID");
+                    }
+                    pendingAuthorizations.set(authResponse.id, { userId: USER_ID, toolName });
+                    return {
+                        success: false,
+                        message: "Authorization required",
+                        error: "Open the authorization link to grant Gmail access, then call check_authorization",
+                        authorization: authorizationOf(authResponse, authResponse.id),
+                    };
+                }
+
+                options.onAuthorizationRequired?.(authorizationOf(authResponse, authResponse.id ?? ""));
+                // Wait for the authorization to complete
+                await client.auth.waitForCompletion(authResponse);
+            }
+            setAuthorized(USER_ID, toolName, true);
+        }
+
+        // Leave out parameters the caller did not set, so the tool's defaults apply
+        const toolInput = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+
+        const response = await client.tools.execute({
+            tool_name: toolName,
+            input: toolInput,
+            user_id: USER_ID,
+        });
+
+        if (response.output?.error) {
+            // Access may have been revoked, authorize again on the next call
+            if (isAccessError(response.output.error)) {
+                setAuthorized(USER_ID, toolName, false);
+            }
+            return {
+                success: false,
+                message: options.failureMessage,
+                data: response,
+                error: response.output.error.message,
+            };
+        }
+
+        return {
+            success: true,
+            message: options.successMessage,
+            data: response,
+        };
+    } catch (error) {
+        if (isAccessError(error)) {
+            setAuthorized(USER_ID, toolName, false);
+        }
+        return {
+            success: false,
+            message: options.failureMessage,
+            error: error instanceof Error ? error.message : "Unknown error occurred",
+        };
+    }
+}
+
+/**
+ * Look up an authorization returned by a Gmail tool. Once it has completed, the tool can be called again.
+ */
+export async function checkGmailAuthorization(params: CheckAuthorizationParams): Promise<GmailToolResult> {
+    const clientResult = createArcadeClient();
+
+    if (!clientResult.success) {
+        return {
+            success: false,
+            message: clientResult.error || "Failed to create Arcade client",
+            error: "Client creation failed",
+        };
+    }
+
+    try {
+        const response = await clientResult.client!.auth.status({ id: params.auth_id, wait: params.wait });
+        const authorization = authorizationOf(response, params.auth_id);
+        const pending = pendingAuthorizations.get(params.auth_id);
+
+        if (authorization.status === "completed" || authorization.status === "failed") {
+            pendingAuthorizations.delete(params.auth_id);
+        }
+        if (authorization.status === "completed") {
+            if (pending) {
+                setAuthorized(pending.userId, pending.toolName, true);
+            }
+            return {
+                success: true,
+                message: "Gmail access authorized, call the tool again",
+                authorization,
+            };
+        }
+        if (authorization.status === "failed") {
+            return {
+                success: false,
+                message: "Authorization failed",
+                error: "Call the tool again for a new authorization link",
+                authorization,
+            };
+        }
+        return {
+            success: false,
+            message: "Authorization pending",
+            error: "Open the authorization link to grant Gmail access, then call check_authorization again",
+            authorization,
+        };
+    } catch (error) {
+        return {
+            success: false,
+            message: "Failed to check authorization",
+            error: error instanceof Error ? error.message : "Unknown error occurred",
+        };
+    }
+}